@@ -1,6 +1,7 @@
 import type { MiddlewareFunction, ThunkAction } from "./apply-middleware";
 import { applyMiddleware } from "./apply-middleware";
-import type { Action, Dispatch, Reducer } from "./create-store";
+import { compose } from "./compose";
+import type { Action, Dispatch, Reducer, StoreEnhancer } from "./create-store";
 import { createStore } from "./create-store";
 
 describe("applyMiddleware", () => {
@@ -313,4 +314,244 @@ describe("applyMiddleware", () => {
       expect(store.getState().count).toBe(1);
     });
   });
+
+  describe("typed actions", () => {
+    type CounterAction = { type: "inc" } | { type: "add"; payload: number };
+
+    const typedReducer = (state: State, action: CounterAction): State =>
+      action.type === "add"
+        ? { count: state.count + action.payload }
+        : { count: state.count + 1 };
+
+    it("narrows actions inside middleware", () => {
+      const store = createStore(typedReducer, { count: 0 });
+      const seen: number[] = [];
+
+      const middleware: MiddlewareFunction<State, CounterAction> =
+        () => (next) => (action) => {
+          if (typeof action !== "function" && action.type === "add") {
+            seen.push(action.payload);
+          }
+          return next(action);
+        };
+
+      const dispatch = applyMiddleware(store, [middleware]);
+      dispatch({ type: "add", payload: 3 });
+      // @ts-expect-error unknown action type
+      dispatch({ type: "incc" });
+
+      expect(seen).toEqual([3]);
+      expect(store.getState()).toEqual({ count: 4 });
+    });
+  });
+
+  describe("nested dispatches", () => {
+    const passThrough: MiddlewareFunction<State> = () => (next) => next;
+    const dispatchOnSetup: MiddlewareFunction<State> = ({ dispatch }) => {
+      dispatch({ type: "add", payload: 10 });
+      return (next) => (action) => next(action);
+    };
+
+    it("throws on dispatches during middleware setup by default", () => {
+      expect(() =>
+        createStore(reducer, { count: 0 }, [dispatchOnSetup]),
+      ).toThrow("Dispatching while constructing middleware is not allowed.");
+    });
+
+    it("rejects dispatches from listeners by default", () => {
+      const onError = jest.fn();
+      const store = createStore(
+        reducer,
+        { count: 0 },
+        { middlewares: [passThrough], onError },
+      );
+      store.subscribe(() => store.dispatch({ type: "add", payload: 10 }));
+
+      store.dispatch({ type: "inc" });
+
+      expect(onError).toHaveBeenCalledWith(
+        new Error("Dispatching while a reducer is executing is not allowed."),
+        { type: "add", payload: 10 },
+      );
+      expect(store.getState()).toEqual({ count: 1 });
+    });
+
+    describe("in queue mode", () => {
+      it("runs dispatches made during middleware setup once it is built", () => {
+        const store = createStore(
+          reducer,
+          { count: 0 },
+          {
+            middlewares: [dispatchOnSetup],
+            nestedDispatch: "queue",
+          },
+        );
+
+        expect(store.getState()).toEqual({ count: 10 });
+      });
+
+      it("processes dispatches from listeners in FIFO order", () => {
+        const seen: string[] = [];
+        const store = createStore(
+          reducer,
+          { count: 0 },
+          {
+            middlewares: [
+              () => (next) => (action) => {
+                seen.push(`${(action as Action).type}`);
+                next(action);
+              },
+            ],
+            nestedDispatch: "queue",
+          },
+        );
+        store.subscribe((state) => {
+          seen.push(`notify ${state.count}`);
+          if (state.count === 1) {
+            store.dispatch({ type: "add", payload: 10 });
+            store.dispatch({ type: "add", payload: 100 });
+          }
+        });
+
+        store.dispatch({ type: "inc" });
+
+        expect(seen).toEqual([
+          "inc",
+          "notify 1",
+          "add",
+          "add",
+          "notify 11",
+          "notify 111",
+        ]);
+      });
+
+      it("caps the depth of dispatches that keep dispatching", () => {
+        const onError = jest.fn();
+        const store = createStore(
+          reducer,
+          { count: 0 },
+          {
+            middlewares: [passThrough],
+            nestedDispatch: "queue",
+            maxDispatchDepth: 5,
+            onError,
+          },
+        );
+        store.subscribe(() => store.dispatch({ type: "inc" }));
+
+        store.dispatch({ type: "inc" });
+
+        expect(store.getState()).toEqual({ count: 6 });
+        expect(onError).toHaveBeenCalledWith(
+          new Error(
+            "Nested dispatches went deeper than 5 levels. A listener or middleware may be dispatching in a loop.",
+          ),
+          { type: "inc" },
+        );
+      });
+    });
+  });
+
+  describe("as a store enhancer", () => {
+    const logger =
+      (log: string[], name: string): MiddlewareFunction<State> =>
+      () =>
+      (next) =>
+      (action) => {
+        log.push(name);
+        return next(action);
+      };
+
+    it("applies middleware to every dispatch", () => {
+      const log: string[] = [];
+      const store = createStore(
+        reducer,
+        { count: 0 },
+        { enhancer: applyMiddleware(logger(log, "a"), logger(log, "b")) },
+      );
+
+      store.dispatch({ type: "inc" });
+
+      expect(log).toEqual(["a", "b"]);
+      expect(store.getState()).toEqual({ count: 1 });
+    });
+
+    it("runs thunks with the store's extra argument", () => {
+      const store = createStore(
+        reducer,
+        { count: 0 },
+        { enhancer: applyMiddleware(), extraArgument: 5 },
+      );
+
+      const added = store.dispatch(
+        (dispatch, getState, extraArgument = 0): number => {
+          dispatch({ type: "add", payload: extraArgument });
+          return getState().count;
+        },
+      );
+
+      expect(added).toBe(5);
+    });
+
+    it("gives middleware the store's extra argument", () => {
+      const extras: unknown[] = [];
+      const spy: MiddlewareFunction<State, Action, number> =
+        ({ extraArgument }) =>
+        (next) =>
+        (action) => {
+          extras.push(extraArgument);
+          return next(action);
+        };
+      const store = createStore(
+        reducer,
+        { count: 0 },
+        { enhancer: applyMiddleware(spy), extraArgument: 5 },
+      );
+
+      store.dispatch({ type: "inc" });
+
+      expect(extras).toEqual([5]);
+    });
+
+    it("layers with other enhancers in compose order", () => {
+      const log: string[] = [];
+      const outer: StoreEnhancer<State> =
+        (next) => (reducer, initialState, options) => {
+          const store = next(reducer, initialState, options);
+          return {
+            ...store,
+            dispatch: ((action: Action) => {
+              log.push("outer");
+              return store.dispatch(action);
+            }) as typeof store.dispatch,
+          };
+        };
+
+      const store = createStore(
+        reducer,
+        { count: 0 },
+        { enhancer: compose(outer, applyMiddleware(logger(log, "inner"))) },
+      );
+      store.dispatch({ type: "inc" });
+
+      expect(log).toEqual(["outer", "inner"]);
+    });
+
+    it("routes middleware errors to onError", () => {
+      const onError = jest.fn();
+      const failing: MiddlewareFunction<State> = () => () => () => {
+        throw new Error("middleware failed");
+      };
+      const store = createStore(
+        reducer,
+        { count: 0 },
+        { enhancer: applyMiddleware(failing), onError },
+      );
+
+      expect(() => store.dispatch({ type: "inc" })).not.toThrow();
+      expect(onError).toHaveBeenCalledWith(new Error("middleware failed"), {
+        type: "inc",
+      });
+    });
+  });
 });
@@ -1,58 +1,197 @@
-import type { Action, Dispatch, Store } from "./create-store";
+import type {
+  Action,
+  Dispatch,
+  Store,
+  StoreEnhancer,
+  StoreOptions,
+  ThunkDispatch,
+} from "./create-store";
 
-export type ThunkAction<S> = (dispatch: Dispatch<S>, getState: () => S) => void;
+export type ThunkAction<
+  S,
+  A extends Action = Action,
+  E = undefined,
+  R = void,
+> = (
+  dispatch: ThunkDispatch<S, A, E>,
+  getState: () => S,
+  ...extraArgument: undefined extends E
+    ? [extraArgument?: E]
+    : [extraArgument: E]
+) => R;
 
-export type Middleware<S> = {
-  dispatch: Dispatch<S>;
+export type Middleware<S, A extends Action = Action, E = undefined> = {
+  dispatch: ThunkDispatch<S, A, E>;
   getState: () => S;
+  extraArgument: E;
 };
 
-export type MiddlewareFunction<S> = (
-  middleware: Middleware<S>,
-) => (next: Dispatch<S>) => Dispatch<S>;
-
-export function applyMiddleware<S>(
-  store: Store<S>,
-  middlewares: MiddlewareFunction<S>[] = [],
-): Dispatch<S> {
-  let dispatch: Dispatch<S> = () => {
-    throw new Error(
-      "Dispatching while constructing middleware is not allowed.",
-    );
+export type MiddlewareFunction<S, A extends Action = Action, E = undefined> = (
+  middleware: Middleware<S, A, E>,
+) => (next: Dispatch<S, A, E>) => Dispatch<S, A, E>;
+
+export type MiddlewareOptions = Pick<
+  StoreOptions<unknown>,
+  "nestedDispatch" | "maxDispatchDepth" | "tracer"
+>;
+
+function chainMiddleware<S, A extends Action, E>(
+  store: Store<S, A, E>,
+  middlewares: MiddlewareFunction<S, A, E>[],
+  extraArgument: E | undefined,
+  options: MiddlewareOptions,
+): Dispatch<S, A, E> {
+  const { nestedDispatch = "throw", maxDispatchDepth = 50, tracer } = options;
+
+  // Actions dispatched during middleware setup, run once the chain is built
+  const setupQueue: A[] = [];
+
+  let dispatch: Dispatch<S, A, E> = (action: A | ThunkAction<S, A, E>) => {
+    if (nestedDispatch !== "queue") {
+      throw new Error(
+        "Dispatching while constructing middleware is not allowed.",
+      );
+    }
+    setupQueue.push(action as A);
   };
 
   let isReducing = false;
+  let depth = 0;
+  // Actions dispatched while reducing, after they went through the middleware
+  const queue: { action: A; depth: number }[] = [];
 
   // Wrap the store's dispatch to protect reducer execution
-  const guardedDispatch: Dispatch<S> = (action: Action | ThunkAction<S>) => {
+  const guardedDispatch: Dispatch<S, A, E> = (
+    action: A | ThunkAction<S, A, E>,
+  ) => {
     if (isReducing) {
-      throw new Error(
-        "Dispatching while a reducer is executing is not allowed.",
-      );
+      if (nestedDispatch !== "queue") {
+        throw new Error(
+          "Dispatching while a reducer is executing is not allowed.",
+        );
+      }
+      if (depth >= maxDispatchDepth) {
+        throw new Error(
+          `Nested dispatches went deeper than ${maxDispatchDepth} levels. A listener or middleware may be dispatching in a loop.`,
+        );
+      }
+      queue.push({ action: action as A, depth: depth + 1 });
+      return;
     }
 
     try {
       isReducing = true;
-      return store.dispatch(action);
+      store.dispatch(action);
+
+      // FIFO; actions queued by queued actions run after the ones before them
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        depth = next.depth;
+        store.dispatch(next.action);
+      }
     } finally {
       isReducing = false;
+      depth = 0;
+      queue.length = 0;
     }
   };
 
+  const middlewareDispatch = ((action: A | ThunkAction<S, A, E, unknown>) => {
+    if (typeof action === "function") {
+      return (action as ThunkAction<S, A, unknown, unknown>)(
+        middlewareDispatch,
+        store.getState,
+        extraArgument,
+      );
+    }
+
+    return dispatch(action);
+  }) as ThunkDispatch<S, A, E>;
+
   const chain = middlewares.map((mw) =>
     mw({
       getState: store.getState,
-      dispatch: (action: Action | ThunkAction<S>) => {
-        if (typeof action === "function") {
-          return action(dispatch, store.getState);
-        }
-
-        dispatch(action);
-      },
+      dispatch: middlewareDispatch,
+      extraArgument: extraArgument as E,
     }),
   );
 
-  dispatch = chain.reduceRight((next, mw) => mw(next), guardedDispatch);
+  // The time of each middleware includes the time spent in `next`
+  function traced(step: Dispatch<S, A, E>, index: number): Dispatch<S, A, E> {
+    if (!tracer) return step;
+
+    const name = middlewares[index]?.name || `middleware ${index}`;
+    return (action) =>
+      tracer.measure("middleware", name, action as A, () => step(action));
+  }
+
+  dispatch = chain.reduceRight(
+    (next, mw, index) => traced(mw(next), index),
+    guardedDispatch,
+  );
+
+  for (const action of setupQueue) {
+    dispatch(action);
+  }
 
   return dispatch;
 }
+
+export function applyMiddleware<S, A extends Action = Action, E = undefined>(
+  ...middlewares: MiddlewareFunction<S, A, E>[]
+): StoreEnhancer<S, A, E>;
+export function applyMiddleware<S, A extends Action = Action, E = undefined>(
+  store: Store<S, A, E>,
+  middlewares?: MiddlewareFunction<S, A, E>[],
+  extraArgument?: E,
+  options?: MiddlewareOptions,
+): Dispatch<S, A, E>;
+export function applyMiddleware<S, A extends Action, E>(
+  ...args: unknown[]
+): Dispatch<S, A, E> | StoreEnhancer<S, A, E> {
+  if (typeof args[0] === "object") {
+    const [store, middlewares = [], extraArgument, options = {}] = args as [
+      Store<S, A, E>,
+      MiddlewareFunction<S, A, E>[]?,
+      E?,
+      MiddlewareOptions?,
+    ];
+    return chainMiddleware(store, middlewares, extraArgument, options);
+  }
+
+  const middlewares = args as MiddlewareFunction<S, A, E>[];
+
+  const enhancer: StoreEnhancer<S, A, E> =
+    (next) => (reducer, initialState, options) => {
+      const store = next(reducer, initialState, options);
+      const extraArgument = options?.extraArgument;
+      const chained = chainMiddleware(
+        store,
+        middlewares,
+        extraArgument,
+        options ?? {},
+      );
+
+      const dispatch = ((action: A | ThunkAction<S, A, E, unknown>) => {
+        if (typeof action === "function") {
+          return (action as ThunkAction<S, A, unknown, unknown>)(
+            dispatch,
+            store.getState,
+            extraArgument,
+          );
+        }
+
+        // Middleware errors go to `onError` like those of the inner store
+        try {
+          return chained(action);
+        } catch (error) {
+          if (!options?.onError) throw error;
+          options.onError(error, action);
+          return undefined;
+        }
+      }) as ThunkDispatch<S, A, E>;
+
+      return { ...store, dispatch };
+    };
+
+  return enhancer;
+}
@@ -0,0 +1,74 @@
+import { getEqualityFn, shareSubtrees } from "./change-detection";
+import { deepEqual } from "./deep-equal";
+import { shallowEqual } from "./shallow-equal";
+
+describe("shareSubtrees", () => {
+  it("returns the previous state when everything is deeply equal", () => {
+    const previous = { a: { b: [1, 2] }, c: "x" };
+
+    expect(shareSubtrees(previous, { a: { b: [1, 2] }, c: "x" })).toBe(
+      previous,
+    );
+  });
+
+  it("keeps previous references for equal subtrees", () => {
+    const previous = { users: { list: [{ id: 1 }] }, count: 1 };
+    const next = { users: { list: [{ id: 1 }] }, count: 2 };
+
+    const shared = shareSubtrees(previous, next);
+
+    expect(shared).toEqual(next);
+    expect(shared).not.toBe(previous);
+    expect(shared.users).toBe(previous.users);
+  });
+
+  it("returns the next state when no subtree can be reused", () => {
+    const previous = { a: { v: 1 }, b: [1] };
+    const next = { a: { v: 2 }, b: [2] };
+
+    expect(shareSubtrees(previous, next)).toBe(next);
+  });
+
+  it("does not compare subtrees whose reference did not change", () => {
+    const untouched = { huge: true };
+    const previous = { untouched, other: 1 };
+    const next = { untouched, other: 2 };
+    const keys = jest.spyOn(Object, "keys");
+
+    shareSubtrees(previous, next);
+
+    expect(keys).not.toHaveBeenCalledWith(untouched);
+    keys.mockRestore();
+  });
+
+  it("handles added and removed keys", () => {
+    type State = { a?: { v: number }; b?: number; c?: number };
+    const previous: State = { a: { v: 1 }, b: 1 };
+
+    const added = shareSubtrees(previous, { a: { v: 1 }, b: 1, c: 2 });
+    expect(added).toEqual({ a: { v: 1 }, b: 1, c: 2 });
+    expect(added.a).toBe(previous.a);
+
+    const removed = shareSubtrees(previous, { a: { v: 1 } });
+    expect(removed).toEqual({ a: { v: 1 } });
+    expect(removed.a).toBe(previous.a);
+  });
+
+  it("compares other objects with deepEqual", () => {
+    const previous = { tags: new Set(["a"]) };
+
+    expect(shareSubtrees(previous, { tags: new Set(["a"]) })).toBe(previous);
+  });
+});
+
+describe("getEqualityFn", () => {
+  it("maps each strategy to a comparison", () => {
+    const custom = (a: number, b: number) => Math.abs(a - b) < 1;
+
+    expect(getEqualityFn("reference")).toBe(Object.is);
+    expect(getEqualityFn("subtree")).toBe(Object.is);
+    expect(getEqualityFn("shallow")).toBe(shallowEqual);
+    expect(getEqualityFn("deep")).toBe(deepEqual);
+    expect(getEqualityFn(custom)).toBe(custom);
+  });
+});
@@ -0,0 +1,64 @@
+import { deepEqual } from "./deep-equal";
+import { shallowEqual } from "./shallow-equal";
+
+export type ChangeDetection<S> =
+  | "reference"
+  | "shallow"
+  | "deep"
+  | "subtree"
+  | ((previous: S, next: S) => boolean);
+
+function isPlainContainer(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+
+  const proto = Object.getPrototypeOf(value);
+  return Array.isArray(value) || proto === Object.prototype || proto === null;
+}
+
+// Keeps the previous reference of every subtree that is deeply equal to its
+// next version. Only subtrees whose reference changed are compared.
+export function shareSubtrees<T>(previous: T, next: T): T {
+  if (Object.is(previous, next)) return previous;
+
+  if (
+    !isPlainContainer(previous) ||
+    !isPlainContainer(next) ||
+    Array.isArray(previous) !== Array.isArray(next)
+  ) {
+    return deepEqual(previous, next) ? previous : next;
+  }
+
+  const keys = Object.keys(next);
+  const shared = (
+    Array.isArray(next) ? [] : Object.create(Object.getPrototypeOf(next))
+  ) as Record<string, unknown>;
+  let changed = keys.length !== Object.keys(previous).length;
+  let reused = false;
+
+  for (const key of keys) {
+    const value =
+      key in previous ? shareSubtrees(previous[key], next[key]) : next[key];
+    if (!(key in previous) || value !== previous[key]) changed = true;
+    if (value !== next[key]) reused = true;
+    shared[key] = value;
+  }
+
+  if (!changed) return previous;
+  return reused ? (shared as T) : next;
+}
+
+export function getEqualityFn<S>(
+  strategy: ChangeDetection<S>,
+): (previous: S, next: S) => boolean {
+  switch (strategy) {
+    case "reference":
+    case "subtree":
+      return Object.is;
+    case "shallow":
+      return shallowEqual;
+    case "deep":
+      return deepEqual;
+    default:
+      return strategy;
+  }
+}
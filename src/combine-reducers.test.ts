@@ -0,0 +1,121 @@
+import { combineReducers } from "./combine-reducers";
+import type { Action } from "./create-store";
+import { createStore } from "./create-store";
+
+describe("combineReducers", () => {
+  const counter = (state: number, action: Action): number =>
+    action.type === "inc" ? state + 1 : state;
+
+  const todos = (state: string[], action: Action): string[] =>
+    action.type === "add" ? [...state, action.payload as string] : state;
+
+  const reducer = combineReducers({ counter, todos });
+
+  describe("state shape", () => {
+    it("routes actions to every slice reducer", () => {
+      const state = reducer({ counter: 0, todos: [] }, { type: "inc" });
+
+      expect(state).toEqual({ counter: 1, todos: [] });
+    });
+
+    it("infers the combined state type from the reducers map", () => {
+      const store = createStore(reducer, { counter: 0, todos: ["a"] });
+
+      const { counter, todos }: { counter: number; todos: string[] } =
+        store.getState();
+
+      expect(counter).toBe(0);
+      expect(todos).toEqual(["a"]);
+    });
+  });
+
+  describe("reference equality", () => {
+    it("returns the same state reference when no slice changed", () => {
+      const state = { counter: 0, todos: [] };
+
+      expect(reducer(state, { type: "noop" })).toBe(state);
+    });
+
+    it("keeps references for slices that did not change", () => {
+      const state = { counter: 0, todos: ["a"] };
+      const next = reducer(state, { type: "inc" });
+
+      expect(next).not.toBe(state);
+      expect(next.todos).toBe(state.todos);
+    });
+
+    it("drops keys that have no slice reducer", () => {
+      const state = { counter: 0, todos: [], stale: true };
+
+      const next = reducer(state, { type: "noop" });
+
+      expect(next).not.toBe(state);
+      expect(next).toEqual({ counter: 0, todos: [] });
+    });
+  });
+
+  describe("store integration", () => {
+    it("does not notify listeners when no slice changed", () => {
+      const store = createStore(reducer, { counter: 0, todos: [] });
+      const listener = jest.fn();
+
+      store.subscribe(listener);
+      store.dispatch({ type: "noop" });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("notifies listeners when a single slice changed", () => {
+      const store = createStore(reducer, { counter: 0, todos: [] });
+      const listener = jest.fn();
+
+      store.subscribe(listener);
+      store.dispatch({ type: "add", payload: "write tests" });
+
+      expect(listener).toHaveBeenCalledWith({
+        counter: 0,
+        todos: ["write tests"],
+      });
+    });
+
+    it("supports nested combined reducers", () => {
+      const root = combineReducers({
+        ui: combineReducers({ counter }),
+        todos,
+      });
+      const state = { ui: { counter: 0 }, todos: [] };
+
+      const next = root(state, { type: "inc" });
+
+      expect(next).toEqual({ ui: { counter: 1 }, todos: [] });
+      expect(next.todos).toBe(state.todos);
+    });
+  });
+
+  describe("typed actions", () => {
+    type TodoAction = { type: "add"; payload: string } | { type: "clear" };
+
+    it("passes the action union to every slice", () => {
+      const typedTodos = (state: string[], action: TodoAction): string[] => {
+        switch (action.type) {
+          case "add":
+            return [...state, action.payload];
+          case "clear":
+            return [];
+          default:
+            return state;
+        }
+      };
+
+      const store = createStore(combineReducers({ todos: typedTodos }), {
+        todos: [],
+      });
+
+      store.dispatch({ type: "add", payload: "a" });
+      // @ts-expect-error unknown action type
+      store.dispatch({ type: "inc" });
+
+      expect(store.getState()).toEqual({ todos: ["a"] });
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import type { Action, Reducer } from "./create-store";
+
+export type ReducersMapObject<S, A extends Action = Action> = {
+  [K in keyof S]: Reducer<S[K], A>;
+};
+
+export type StateFromReducersMapObject<M> = {
+  [K in keyof M]: M[K] extends (state: infer S, action: never) => unknown
+    ? S
+    : never;
+};
+
+// Each slice must accept the action, so the combined union is their intersection
+export type ActionFromReducersMapObject<M> = M[keyof M] extends (
+  state: never,
+  action: infer A,
+) => unknown
+  ? A extends Action
+    ? A
+    : never
+  : never;
+
+export function combineReducers<
+  M extends Record<string, (state: never, action: never) => unknown>,
+>(
+  reducers: M,
+): Reducer<StateFromReducersMapObject<M>, ActionFromReducersMapObject<M>> {
+  type S = StateFromReducersMapObject<M>;
+  type A = ActionFromReducersMapObject<M>;
+
+  const keys = Object.keys(reducers) as (keyof S & keyof M)[];
+  const slices = reducers as unknown as ReducersMapObject<S, A>;
+
+  return function combination(state: S, action: A): S {
+    const nextState = {} as S;
+    // A key count mismatch means a slice was dropped from the map
+    let hasChanged = keys.length !== Object.keys(state as object).length;
+
+    for (const key of keys) {
+      const prevSlice = state[key];
+      const nextSlice = slices[key](prevSlice, action);
+
+      nextState[key] = nextSlice;
+      hasChanged = hasChanged || nextSlice !== prevSlice;
+    }
+
+    // Keep the previous reference so deepEqual hits its identity fast path
+    return hasChanged ? nextState : state;
+  };
+}
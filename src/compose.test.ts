@@ -0,0 +1,23 @@
+import { compose } from "./compose";
+
+describe("compose", () => {
+  it("composes functions from right to left", () => {
+    const double = (n: number) => n * 2;
+    const inc = (n: number) => n + 1;
+
+    expect(compose(double, inc)(3)).toBe(8);
+    expect(compose(inc, double)(3)).toBe(7);
+  });
+
+  it("returns what the leftmost function returns", () => {
+    const length = (s: string) => s.length;
+    const greet = (name: string) => `hi ${name}`;
+    const result: number = compose(length, greet)("bob");
+
+    expect(result).toBe(6);
+  });
+
+  it("returns the argument when given no functions", () => {
+    expect(compose<string>()("same")).toBe("same");
+  });
+});
@@ -0,0 +1,25 @@
+// The result takes the argument of the rightmost function and returns what
+// the leftmost one returns, so an outer enhancer's extension is kept
+export function compose<T>(): (arg: T) => T;
+export function compose<A, R>(f1: (arg: A) => R): (arg: A) => R;
+export function compose<A, B, R>(
+  f1: (arg: B) => R,
+  f2: (arg: A) => B,
+): (arg: A) => R;
+export function compose<A, B, C, R>(
+  f1: (arg: C) => R,
+  f2: (arg: B) => C,
+  f3: (arg: A) => B,
+): (arg: A) => R;
+export function compose<A, B, C, D, R>(
+  f1: (arg: D) => R,
+  f2: (arg: C) => D,
+  f3: (arg: B) => C,
+  f4: (arg: A) => B,
+): (arg: A) => R;
+export function compose<T>(...fns: ((arg: T) => T)[]): (arg: T) => T;
+export function compose(
+  ...fns: ((arg: unknown) => unknown)[]
+): (arg: unknown) => unknown {
+  return (arg) => fns.reduceRight((composed, fn) => fn(composed), arg);
+}
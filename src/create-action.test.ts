@@ -0,0 +1,49 @@
+import { createAction } from "./create-action";
+import type { Action } from "./create-store";
+
+describe("createAction", () => {
+  it("creates actions with the given type", () => {
+    const reset = createAction("reset");
+
+    expect(reset()).toEqual({ type: "reset", payload: undefined });
+    expect(reset.type).toBe("reset");
+  });
+
+  it("attaches the payload", () => {
+    const add = createAction<number>("add");
+
+    expect(add(5)).toEqual({ type: "add", payload: 5 });
+  });
+
+  it("makes the payload optional when it accepts undefined", () => {
+    const select = createAction<string | undefined>("select");
+
+    expect(select()).toEqual({ type: "select", payload: undefined });
+    expect(select("a")).toEqual({ type: "select", payload: "a" });
+  });
+
+  describe("match", () => {
+    it("matches actions with the same type", () => {
+      const add = createAction<number>("add");
+      const action: Action = { type: "add", payload: 1 };
+
+      expect(add.match(action)).toBe(true);
+    });
+
+    it("does not match other actions", () => {
+      const add = createAction<number>("add");
+
+      expect(add.match({ type: "remove" })).toBe(false);
+    });
+
+    it("narrows the payload type", () => {
+      const add = createAction<number>("add");
+      const action: Action = { type: "add", payload: 1 };
+
+      if (add.match(action)) {
+        const payload: number = action.payload;
+        expect(payload).toBe(1);
+      }
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import type { Action } from "./create-store";
+
+export type PayloadAction<P = undefined, T extends string = string> = {
+  type: T;
+  payload: P;
+};
+
+export type ActionCreator<P = undefined, T extends string = string> = ([
+  P,
+] extends [undefined]
+  ? () => PayloadAction<P, T>
+  : undefined extends P
+    ? (payload?: P) => PayloadAction<P, T>
+    : (payload: P) => PayloadAction<P, T>) & {
+  type: T;
+  match: (action: Action) => action is PayloadAction<P, T>;
+};
+
+export function createAction<P = undefined, T extends string = string>(
+  type: T,
+): ActionCreator<P, T> {
+  function actionCreator(payload?: P): PayloadAction<P, T> {
+    return { type, payload: payload as P };
+  }
+
+  function match(action: Action): action is PayloadAction<P, T> {
+    return action.type === type;
+  }
+
+  return Object.assign(actionCreator, { type, match }) as ActionCreator<P, T>;
+}
+
+export type ActionsOf<M> = {
+  [K in keyof M]: M[K] extends (...args: never[]) => infer R ? R : never;
+}[keyof M];
@@ -0,0 +1,158 @@
+import { createSelector, memoize } from "./create-selector";
+import { deepEqual } from "./deep-equal";
+
+describe("createSelector", () => {
+  type Todo = { id: number; done: boolean };
+  type State = { todos: Todo[]; filter: "all" | "done" };
+
+  const selectTodos = (state: State) => state.todos;
+  const selectFilter = (state: State) => state.filter;
+
+  const state: State = {
+    todos: [
+      { id: 1, done: true },
+      { id: 2, done: false },
+    ],
+    filter: "done",
+  };
+
+  describe("memoization", () => {
+    it("computes the result from the input selectors", () => {
+      const selectVisible = createSelector(
+        [selectTodos, selectFilter],
+        (todos, filter) =>
+          filter === "all" ? todos : todos.filter((t) => t.done),
+      );
+
+      expect(selectVisible(state)).toEqual([{ id: 1, done: true }]);
+    });
+
+    it("returns the cached result for the same state", () => {
+      const selectDone = createSelector([selectTodos], (todos) =>
+        todos.filter((t) => t.done),
+      );
+
+      const first = selectDone(state);
+
+      expect(selectDone(state)).toBe(first);
+      expect(selectDone.recomputations()).toBe(1);
+    });
+
+    it("does not recompute when input results did not change", () => {
+      const selectDone = createSelector([selectTodos], (todos) =>
+        todos.filter((t) => t.done),
+      );
+
+      const first = selectDone(state);
+      const second = selectDone({ ...state, filter: "all" });
+
+      expect(second).toBe(first);
+      expect(selectDone.recomputations()).toBe(1);
+    });
+
+    it("recomputes when an input result changed", () => {
+      const selectCount = createSelector(
+        [selectTodos],
+        (todos) => todos.length,
+      );
+
+      selectCount(state);
+      selectCount({ ...state, todos: [] });
+
+      expect(selectCount.recomputations()).toBe(2);
+    });
+
+    it("composes memoized selectors", () => {
+      const selectDone = createSelector([selectTodos], (todos) =>
+        todos.filter((t) => t.done),
+      );
+      const selectDoneIds = createSelector([selectDone], (todos) =>
+        todos.map((t) => t.id),
+      );
+
+      expect(selectDoneIds(state)).toEqual([1]);
+      expect(selectDoneIds(state)).toBe(selectDoneIds(state));
+    });
+
+    it("exposes the result function and cache controls", () => {
+      const combiner = (todos: Todo[]) => todos.length;
+      const selectCount = createSelector([selectTodos], combiner);
+
+      selectCount(state);
+      selectCount.clearCache();
+      selectCount(state);
+
+      expect(selectCount.resultFunc).toBe(combiner);
+      expect(selectCount.recomputations()).toBe(2);
+
+      selectCount.resetRecomputations();
+      expect(selectCount.recomputations()).toBe(0);
+    });
+  });
+
+  describe("options", () => {
+    it("keeps one result per argument with maxSize", () => {
+      const selectById = createSelector(
+        [selectTodos, (_state: State, id: number) => id],
+        (todos, id) => todos.find((t) => t.id === id),
+        { maxSize: 2 },
+      );
+
+      const first = selectById(state, 1);
+      const second = selectById(state, 2);
+
+      expect(selectById(state, 1)).toBe(first);
+      expect(selectById(state, 2)).toBe(second);
+      expect(selectById.recomputations()).toBe(2);
+    });
+
+    it("evicts the least recently used entry", () => {
+      const selectById = createSelector(
+        [selectTodos, (_state: State, id: number) => id],
+        (todos, id) => todos.find((t) => t.id === id),
+        { maxSize: 1 },
+      );
+
+      selectById(state, 1);
+      selectById(state, 2);
+      selectById(state, 1);
+
+      expect(selectById.recomputations()).toBe(3);
+    });
+
+    it("compares input results with a custom equality function", () => {
+      const selectCount = createSelector(
+        [selectTodos],
+        (todos) => todos.length,
+        { equalityFn: deepEqual },
+      );
+
+      selectCount(state);
+      selectCount({ ...state, todos: state.todos.map((t) => ({ ...t })) });
+
+      expect(selectCount.recomputations()).toBe(1);
+    });
+  });
+});
+
+describe("memoize", () => {
+  it("caches results by argument", () => {
+    const fn = jest.fn((a: number, b: number) => a + b);
+    const add = memoize(fn);
+
+    expect(add(1, 2)).toBe(3);
+    expect(add(1, 2)).toBe(3);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("clears the cache", () => {
+    const fn = jest.fn((a: number) => a * 2);
+    const double = memoize(fn);
+
+    double(1);
+    double.clearCache();
+    double(1);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,126 @@
+export type EqualityFn = (a: unknown, b: unknown) => boolean;
+
+export type SelectorOptions = {
+  maxSize?: number;
+  equalityFn?: EqualityFn;
+};
+
+type InputSelector = (state: never, ...params: never[]) => unknown;
+
+export type SelectorResults<Inputs extends readonly InputSelector[]> = {
+  [K in keyof Inputs]: Inputs[K] extends (...args: never[]) => infer R
+    ? R
+    : never;
+};
+
+// Parameters of the input selector that takes the most arguments
+export type SelectorParameters<
+  Inputs extends readonly unknown[],
+  Longest extends unknown[] = [],
+> = Inputs extends readonly [infer Head, ...infer Tail]
+  ? SelectorParameters<
+      Tail,
+      Head extends (...args: infer P) => unknown
+        ? keyof P extends keyof Longest
+          ? Longest
+          : P
+        : Longest
+    >
+  : Longest;
+
+export type MemoizedSelector<P extends unknown[], R, C> = ((
+  ...args: P
+) => R) & {
+  resultFunc: C;
+  recomputations: () => number;
+  resetRecomputations: () => void;
+  clearCache: () => void;
+};
+
+type CacheEntry<R> = {
+  args: unknown[];
+  value: R;
+};
+
+export function memoize<P extends unknown[], R>(
+  fn: (...args: P) => R,
+  { maxSize = 1, equalityFn = Object.is }: SelectorOptions = {},
+): ((...args: P) => R) & { clearCache: () => void } {
+  // Most recently used entry first
+  let cache: CacheEntry<R>[] = [];
+
+  function memoized(...args: P): R {
+    const index = cache.findIndex(
+      (entry) =>
+        entry.args.length === args.length &&
+        entry.args.every((arg, i) => equalityFn(arg, args[i])),
+    );
+
+    if (index !== -1) {
+      const [entry] = cache.splice(index, 1) as [CacheEntry<R>];
+      cache.unshift(entry);
+      return entry.value;
+    }
+
+    const value = fn(...args);
+    cache.unshift({ args, value });
+    if (cache.length > maxSize) {
+      cache.length = maxSize;
+    }
+
+    return value;
+  }
+
+  function clearCache(): void {
+    cache = [];
+  }
+
+  return Object.assign(memoized, { clearCache });
+}
+
+export function createSelector<
+  const Inputs extends readonly InputSelector[],
+  R,
+>(
+  inputs: Inputs,
+  combiner: (...results: SelectorResults<Inputs>) => R,
+  options: SelectorOptions = {},
+): MemoizedSelector<
+  SelectorParameters<Inputs>,
+  R,
+  (...results: SelectorResults<Inputs>) => R
+> {
+  let recomputations = 0;
+
+  const memoizedCombiner = memoize((...results: unknown[]) => {
+    recomputations++;
+    return (combiner as (...results: unknown[]) => R)(...results);
+  }, options);
+
+  // Arguments are compared by reference; `equalityFn` only applies to input results
+  const memoizedSelector = memoize(
+    (...args: unknown[]) =>
+      memoizedCombiner(
+        ...inputs.map((input) =>
+          (input as (...args: unknown[]) => unknown)(...args),
+        ),
+      ),
+    { maxSize: options.maxSize ?? 1 },
+  );
+
+  function selector(...args: SelectorParameters<Inputs>): R {
+    return memoizedSelector(...args);
+  }
+
+  return Object.assign(selector, {
+    resultFunc: combiner,
+    recomputations: () => recomputations,
+    resetRecomputations: () => {
+      recomputations = 0;
+    },
+    clearCache: () => {
+      memoizedSelector.clearCache();
+      memoizedCombiner.clearCache();
+    },
+  });
+}
@@ -0,0 +1,106 @@
+import type { ActionsOf, PayloadAction } from "./create-action";
+import { createSlice } from "./create-slice";
+import type { Dispatch } from "./create-store";
+import { createStore } from "./create-store";
+
+describe("createSlice", () => {
+  type State = { count: number; label: string };
+
+  const counter = createSlice({
+    name: "counter",
+    initialState: { count: 0, label: "" } as State,
+    reducers: {
+      inc: (state) => ({ ...state, count: state.count + 1 }),
+      add: (state, action: PayloadAction<number>) => ({
+        ...state,
+        count: state.count + action.payload,
+      }),
+      rename: (state, action: PayloadAction<string>) => ({
+        ...state,
+        label: action.payload,
+      }),
+    },
+  });
+
+  describe("action creators", () => {
+    it("prefixes action types with the slice name", () => {
+      expect(counter.actions.inc.type).toBe("counter/inc");
+      expect(counter.actions.add.type).toBe("counter/add");
+    });
+
+    it("creates actions without payload", () => {
+      expect(counter.actions.inc()).toEqual({
+        type: "counter/inc",
+        payload: undefined,
+      });
+    });
+
+    it("creates actions with typed payload", () => {
+      const action = counter.actions.add(2);
+      const type: "counter/add" = action.type;
+      const payload: number = action.payload;
+
+      expect(type).toBe("counter/add");
+      expect(payload).toBe(2);
+    });
+
+    it("match() narrows actions of the slice", () => {
+      const action = counter.actions.rename("clicks");
+
+      expect(counter.actions.rename.match(action)).toBe(true);
+      expect(counter.actions.add.match(action)).toBe(false);
+    });
+  });
+
+  describe("reducer", () => {
+    it("runs the case reducer for matching actions", () => {
+      const state = counter.reducer(
+        counter.initialState,
+        counter.actions.add(3),
+      );
+
+      expect(state).toEqual({ count: 3, label: "" });
+    });
+
+    it("returns the same state for unknown actions", () => {
+      const state = counter.initialState;
+
+      expect(counter.reducer(state, { type: "add" })).toBe(state);
+    });
+
+    it("exposes the case reducers", () => {
+      expect(counter.caseReducers.inc(counter.initialState)).toEqual({
+        count: 1,
+        label: "",
+      });
+    });
+  });
+
+  describe("store integration", () => {
+    it("plugs into createStore and dispatch", () => {
+      const store = createStore(counter.reducer, counter.initialState);
+      const dispatch: Dispatch<State> = store.dispatch;
+
+      dispatch(counter.actions.inc());
+      dispatch(counter.actions.add(5));
+      dispatch(counter.actions.rename("total"));
+
+      expect(store.getState()).toEqual({ count: 6, label: "total" });
+    });
+
+    it("derives the action union for a typed store", () => {
+      type CounterAction = ActionsOf<typeof counter.actions>;
+
+      const store = createStore<State, CounterAction>(
+        counter.reducer,
+        counter.initialState,
+      );
+
+      store.dispatch(counter.actions.add(1));
+      // @ts-expect-error not an action of the slice
+      store.dispatch({ type: "counter/reset" });
+
+      expect(store.getState().count).toBe(1);
+    });
+  });
+});
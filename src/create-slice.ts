@@ -0,0 +1,65 @@
+import type { ActionCreator, PayloadAction } from "./create-action";
+import { createAction } from "./create-action";
+import type { Action, Reducer } from "./create-store";
+
+export type CaseReducer<S, P = never> = (
+  state: S,
+  action: PayloadAction<P>,
+) => S;
+
+export type CaseReducers<S> = Record<string, CaseReducer<S>>;
+
+export type PayloadOf<CR> = CR extends (
+  state: never,
+  action: infer A,
+) => unknown
+  ? A extends PayloadAction<infer P>
+    ? P
+    : undefined
+  : undefined;
+
+export type SliceActionCreators<CR, N extends string> = {
+  [K in keyof CR & string]: ActionCreator<PayloadOf<CR[K]>, `${N}/${K}`>;
+};
+
+export type Slice<S, CR extends CaseReducers<S>, N extends string> = {
+  name: N;
+  initialState: S;
+  reducer: Reducer<S>;
+  actions: SliceActionCreators<CR, N>;
+  caseReducers: CR;
+};
+
+export type SliceOptions<S, CR extends CaseReducers<S>, N extends string> = {
+  name: N;
+  initialState: S;
+  reducers: CR;
+};
+
+export function createSlice<
+  S,
+  CR extends CaseReducers<S>,
+  N extends string = string,
+>({ name, initialState, reducers }: SliceOptions<S, CR, N>): Slice<S, CR, N> {
+  const handlers = new Map<string, CaseReducer<S>>();
+  const actions = {} as Record<string, ActionCreator<unknown>>;
+
+  for (const key of Object.keys(reducers)) {
+    const type = `${name}/${key}`;
+    handlers.set(type, reducers[key] as CaseReducer<S>);
+    actions[key] = createAction<unknown>(type);
+  }
+
+  function reducer(state: S, action: Action): S {
+    const handler = handlers.get(action.type);
+    return handler ? handler(state, action as PayloadAction<never>) : state;
+  }
+
+  return {
+    name,
+    initialState,
+    reducer,
+    actions: actions as SliceActionCreators<CR, N>,
+    caseReducers: reducers,
+  };
+}
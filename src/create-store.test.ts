@@ -1,5 +1,7 @@
-import type { Action } from "./create-store";
-import { createStore } from "./create-store";
+import type { ThunkAction } from "./apply-middleware";
+import { applyMiddleware } from "./apply-middleware";
+import type { Action, StoreEnhancer, StoreOptions } from "./create-store";
+import { ActionTypes, createStore } from "./create-store";
 
 describe("createStore (with strict deepEqual)", () => {
   type State = { count: number };
@@ -181,6 +183,245 @@ describe("createStore (with strict deepEqual)", () => {
 
       expect(listener).toHaveBeenCalledTimes(1);
     });
+
+    it("passes the previous state, patches and action when asked", () => {
+      const store = createStore(reducer, { count: 0 });
+      const listener = jest.fn();
+
+      store.subscribe(listener, { patches: true });
+      store.dispatch({ type: "inc" });
+
+      expect(listener).toHaveBeenCalledWith(
+        { count: 1 },
+        { count: 0 },
+        [{ op: "replace", path: "/count", value: 1 }],
+        { type: "inc" },
+      );
+    });
+
+    it("reports the changes of a whole batch with its last action", () => {
+      const store = createStore(reducer, { count: 0 });
+      const listener = jest.fn();
+
+      store.subscribe(listener, { patches: true });
+      store.batch(() => {
+        store.dispatch({ type: "inc" });
+        store.dispatch({ type: "inc" });
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        { count: 2 },
+        { count: 0 },
+        [{ op: "replace", path: "/count", value: 2 }],
+        { type: "inc" },
+      );
+    });
+
+    it("computes patches only for listeners that ask for them", () => {
+      const store = createStore(reducer, { count: 0 });
+      const plain = jest.fn();
+      const first = jest.fn();
+      const second = jest.fn();
+
+      store.subscribe(plain);
+      store.subscribe(first, { patches: true });
+      store.subscribe(second, { patches: true });
+      store.dispatch({ type: "inc" });
+
+      expect(plain).toHaveBeenCalledWith({ count: 1 });
+      expect(first.mock.calls[0]?.[2]).toBe(second.mock.calls[0]?.[2]);
+    });
+  });
+
+  describe("notification", () => {
+    it("keeps notifying other listeners when one throws", () => {
+      const onError = jest.fn();
+      const store = createStore(reducer, { count: 0 }, { onError });
+      const error = new Error("listener failed");
+      const after = jest.fn();
+
+      store.subscribe(() => {
+        throw error;
+      });
+      store.subscribe(after);
+
+      expect(() => store.dispatch({ type: "inc" })).not.toThrow();
+      expect(after).toHaveBeenCalledWith({ count: 1 });
+      expect(onError).toHaveBeenCalledWith(error, { type: "inc" });
+    });
+
+    it("logs listener errors without onError", () => {
+      const consoleError = jest.spyOn(console, "error").mockImplementation();
+      const store = createStore(reducer, { count: 0 });
+      const error = new Error("listener failed");
+
+      store.subscribe(() => {
+        throw error;
+      });
+      store.dispatch({ type: "inc" });
+
+      expect(consoleError).toHaveBeenCalledWith(error);
+      consoleError.mockRestore();
+    });
+
+    it("does not call listeners subscribed during notification until the next change", () => {
+      const store = createStore(reducer, { count: 0 });
+      const late = jest.fn();
+
+      const unsubscribe = store.subscribe(() => {
+        unsubscribe();
+        store.subscribe(late);
+      });
+      store.dispatch({ type: "inc" });
+      expect(late).not.toHaveBeenCalled();
+
+      store.dispatch({ type: "inc" });
+      expect(late).toHaveBeenCalledWith({ count: 2 });
+    });
+
+    it("skips listeners unsubscribed during notification", () => {
+      const store = createStore(reducer, { count: 0 });
+      const second = jest.fn();
+      let unsubscribeSecond = () => {};
+
+      store.subscribe(() => unsubscribeSecond());
+      unsubscribeSecond = store.subscribe(second);
+      store.dispatch({ type: "inc" });
+
+      expect(second).not.toHaveBeenCalled();
+    });
+
+    it("announces dispatches made by listeners after the current round", () => {
+      const store = createStore(reducer, { count: 0 });
+      const calls: string[] = [];
+
+      store.subscribe((state) => {
+        calls.push(`first ${state.count}`);
+        if (state.count === 1) store.dispatch({ type: "inc" });
+      });
+      store.subscribe((state) => {
+        calls.push(`second ${state.count}`);
+      });
+      store.dispatch({ type: "inc" });
+
+      expect(calls).toEqual(["first 1", "second 1", "first 2", "second 2"]);
+      expect(store.getState()).toEqual({ count: 2 });
+    });
+  });
+
+  describe("onError", () => {
+    const failingReducer = (state: State, action: Action): State => {
+      if (action.type === "fail") throw new Error("reducer failed");
+      return reducer(state, action);
+    };
+
+    it("receives reducer errors with the action", () => {
+      const onError = jest.fn();
+      const store = createStore(failingReducer, { count: 0 }, { onError });
+
+      expect(() => store.dispatch({ type: "fail" })).not.toThrow();
+      expect(onError).toHaveBeenCalledWith(new Error("reducer failed"), {
+        type: "fail",
+      });
+      expect(store.getState()).toEqual({ count: 0 });
+    });
+
+    it("receives middleware errors with the action", () => {
+      const onError = jest.fn();
+      const store = createStore(
+        reducer,
+        { count: 0 },
+        {
+          onError,
+          middlewares: [
+            () => (next) => (action) => {
+              if ((action as Action).type === "inc") {
+                throw new Error("middleware failed");
+              }
+              next(action);
+            },
+          ],
+        },
+      );
+
+      store.dispatch({ type: "inc" });
+
+      expect(onError).toHaveBeenCalledWith(new Error("middleware failed"), {
+        type: "inc",
+      });
+    });
+
+    it("lets reducer errors escape from dispatch without onError", () => {
+      const store = createStore(failingReducer, { count: 0 });
+
+      expect(() => store.dispatch({ type: "fail" })).toThrow("reducer failed");
+    });
+  });
+
+  describe("selector subscriptions", () => {
+    type Profile = { user: { name: string }; visits: number };
+
+    const profileReducer = (state: Profile, action: Action): Profile => {
+      switch (action.type) {
+        case "visit":
+          return { ...state, visits: state.visits + 1 };
+        case "rename":
+          return { ...state, user: { name: action.payload as string } };
+        default:
+          return state;
+      }
+    };
+
+    const createProfileStore = () =>
+      createStore(profileReducer, { user: { name: "Ada" }, visits: 0 });
+
+    it("fires only when the selected slice changes", () => {
+      const store = createProfileStore();
+      const listener = jest.fn();
+
+      store.subscribe((state) => state.user.name, listener);
+      store.dispatch({ type: "visit" });
+      store.dispatch({ type: "rename", payload: "Grace" });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith("Grace", "Ada");
+    });
+
+    it("compares selections with equalityFn", () => {
+      const store = createProfileStore();
+      const listener = jest.fn();
+
+      store.subscribe((state) => ({ ...state.user }), listener, {
+        equalityFn: (a, b) => a.name === b.name,
+      });
+      store.dispatch({ type: "visit" });
+      store.dispatch({ type: "rename", payload: "Ada" });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("calls the listener right away with fireImmediately", () => {
+      const store = createProfileStore();
+      const listener = jest.fn();
+
+      store.subscribe((state) => state.visits, listener, {
+        fireImmediately: true,
+      });
+
+      expect(listener).toHaveBeenCalledWith(0, 0);
+    });
+
+    it("stops after unsubscribe", () => {
+      const store = createProfileStore();
+      const listener = jest.fn();
+
+      const unsubscribe = store.subscribe((state) => state.visits, listener);
+      unsubscribe();
+      store.dispatch({ type: "visit" });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
   });
 
   describe("edge cases", () => {
@@ -213,4 +454,537 @@ describe("createStore (with strict deepEqual)", () => {
       expect(listener).toHaveBeenCalledWith(1);
     });
   });
+
+  describe("typed actions", () => {
+    type CounterAction = { type: "inc" } | { type: "add"; payload: number };
+
+    const typedReducer = (state: State, action: CounterAction): State => {
+      switch (action.type) {
+        case "inc":
+          return { count: state.count + 1 };
+        case "add":
+          return { count: state.count + action.payload };
+        default:
+          return state;
+      }
+    };
+
+    it("infers the action union from the reducer", () => {
+      const store = createStore(typedReducer, { count: 0 });
+
+      store.dispatch({ type: "inc" });
+      store.dispatch({ type: "add", payload: 2 });
+
+      expect(store.getState()).toEqual({ count: 3 });
+    });
+
+    it("rejects actions outside the union at compile time", () => {
+      const store = createStore(typedReducer, { count: 0 });
+
+      const invalidDispatches = () => {
+        // @ts-expect-error unknown action type
+        store.dispatch({ type: "incc" });
+        // @ts-expect-error missing payload
+        store.dispatch({ type: "add" });
+      };
+
+      expect(typeof invalidDispatches).toBe("function");
+      expect(store.getState()).toEqual({ count: 0 });
+    });
+
+    it("types the dispatch handed to thunks", () => {
+      const store = createStore(typedReducer, { count: 0 });
+      const dispatch = applyMiddleware(store, [
+        ({ dispatch, getState }) =>
+          (next) =>
+          (action) =>
+            typeof action === "function"
+              ? action(dispatch, getState)
+              : next(action),
+      ]);
+
+      const thunk: ThunkAction<State, CounterAction> = (dispatch) => {
+        dispatch({ type: "add", payload: 4 });
+      };
+      const invalidThunk: ThunkAction<State, CounterAction> = (dispatch) => {
+        // @ts-expect-error payload must be a number
+        dispatch({ type: "add", payload: "4" });
+      };
+
+      dispatch(thunk);
+
+      expect(store.getState().count).toBe(4);
+      expect(typeof invalidThunk).toBe("function");
+    });
+  });
+
+  describe("thunks", () => {
+    it("runs thunks without middleware", () => {
+      const store = createStore(reducer, { count: 0 });
+      const listener = jest.fn();
+
+      store.subscribe(listener);
+      store.dispatch((dispatch, getState) => {
+        if (getState().count === 0) {
+          dispatch({ type: "inc" });
+        }
+      });
+
+      expect(store.getState()).toEqual({ count: 1 });
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("returns the thunk result", () => {
+      const store = createStore(reducer, { count: 0 });
+
+      const result: number = store.dispatch((dispatch, getState) => {
+        dispatch({ type: "inc" });
+        return getState().count * 10;
+      });
+
+      expect(result).toBe(10);
+    });
+
+    it("returns promises that can be awaited", async () => {
+      const store = createStore(reducer, { count: 0 });
+
+      const result = await store.dispatch(async (dispatch) => {
+        await new Promise((r) => setTimeout(r, 1));
+        dispatch({ type: "inc" });
+        return "done";
+      });
+
+      expect(result).toBe("done");
+      expect(store.getState()).toEqual({ count: 1 });
+    });
+
+    it("supports nested thunks", async () => {
+      const store = createStore(reducer, { count: 0 });
+
+      const inc =
+        (): ThunkAction<State, Action, undefined, Promise<void>> =>
+        async (dispatch) => {
+          dispatch({ type: "inc" });
+        };
+
+      await store.dispatch(async (dispatch) => {
+        await dispatch(inc());
+        await dispatch(inc());
+      });
+
+      expect(store.getState()).toEqual({ count: 2 });
+    });
+
+    it("passes the extra argument to thunks", async () => {
+      const api = { fetchCount: async () => 3 };
+      const store = createStore(
+        (state: State, action: Action): State =>
+          action.type === "set" ? { count: action.payload as number } : state,
+        { count: 0 },
+        { extraArgument: api },
+      );
+
+      await store.dispatch(async (dispatch, _getState, extra) => {
+        dispatch({ type: "set", payload: await extra.fetchCount() });
+      });
+
+      expect(store.getState()).toEqual({ count: 3 });
+    });
+
+    it("resolves thunks before the middleware chain", () => {
+      const seen: unknown[] = [];
+      const store = createStore(reducer, { count: 0 }, [
+        () => (next) => (action) => {
+          seen.push(action);
+          return next(action);
+        },
+      ]);
+
+      const result = store.dispatch((dispatch) => {
+        dispatch({ type: "inc" });
+        return "ok";
+      });
+
+      expect(result).toBe("ok");
+      expect(seen).toEqual([{ type: "inc" }]);
+      expect(store.getState()).toEqual({ count: 1 });
+    });
+
+    it("lets middleware dispatch thunks with the extra argument", () => {
+      const extra = { step: 2 };
+      const store = createStore(
+        (state: State, action: Action): State =>
+          action.type === "add"
+            ? { count: state.count + (action.payload as number) }
+            : state,
+        { count: 0 },
+        {
+          extraArgument: extra,
+          middlewares: [
+            ({ dispatch }) =>
+              (next) =>
+              (action) => {
+                if (typeof action !== "function" && action.type === "step") {
+                  return dispatch((dispatch, _getState, { step }) => {
+                    dispatch({ type: "add", payload: step });
+                  });
+                }
+                return next(action);
+              },
+          ],
+        },
+      );
+
+      store.dispatch({ type: "step" });
+
+      expect(store.getState()).toEqual({ count: 2 });
+    });
+  });
+
+  describe("batching", () => {
+    it("notifies listeners once at the end of a batch", () => {
+      const store = createStore(reducer, { count: 0 });
+      const listener = jest.fn();
+
+      store.subscribe(listener);
+      store.batch(() => {
+        for (let i = 0; i < 20; i++) {
+          store.dispatch({ type: "inc" });
+        }
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ count: 20 });
+    });
+
+    it("updates state inside the batch", () => {
+      const store = createStore(reducer, { count: 0 });
+      const seen: number[] = [];
+
+      store.batch(() => {
+        store.dispatch({ type: "inc" });
+        seen.push(store.getState().count);
+        store.dispatch({ type: "inc" });
+        seen.push(store.getState().count);
+      });
+
+      expect(seen).toEqual([1, 2]);
+    });
+
+    it("returns the result of the batched function", () => {
+      const store = createStore(reducer, { count: 0 });
+
+      const result = store.batch(() =>
+        store.dispatch((dispatch, getState) => {
+          dispatch({ type: "inc" });
+          return getState().count;
+        }),
+      );
+
+      expect(result).toBe(1);
+    });
+
+    it("flushes only when the outermost batch ends", () => {
+      const store = createStore(reducer, { count: 0 });
+      const listener = jest.fn();
+
+      store.subscribe(listener);
+      store.batch(() => {
+        store.batch(() => {
+          store.dispatch({ type: "inc" });
+        });
+        expect(listener).not.toHaveBeenCalled();
+        store.dispatch({ type: "inc" });
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not notify when nothing changed", () => {
+      const store = createStore(reducer, { count: 0 });
+      const listener = jest.fn();
+
+      store.subscribe(listener);
+      store.batch(() => {
+        store.dispatch({ type: "noop" });
+      });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("notifies even when the batched function throws", () => {
+      const store = createStore(reducer, { count: 0 });
+      const listener = jest.fn();
+
+      store.subscribe(listener);
+
+      expect(() =>
+        store.batch(() => {
+          store.dispatch({ type: "inc" });
+          throw new Error("boom");
+        }),
+      ).toThrow("boom");
+      expect(listener).toHaveBeenCalledWith({ count: 1 });
+    });
+
+    it("coalesces notifications per microtask in microtask mode", async () => {
+      const store = createStore(
+        reducer,
+        { count: 0 },
+        { batching: "microtask" },
+      );
+      const listener = jest.fn();
+
+      store.subscribe(listener);
+      store.dispatch({ type: "inc" });
+      store.dispatch({ type: "inc" });
+      store.dispatch({ type: "inc" });
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(store.getState()).toEqual({ count: 3 });
+
+      await Promise.resolve();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ count: 3 });
+    });
+
+    it("flushes batches synchronously in microtask mode", () => {
+      const store = createStore(
+        reducer,
+        { count: 0 },
+        { batching: "microtask" },
+      );
+      const listener = jest.fn();
+
+      store.subscribe(listener);
+      store.batch(() => {
+        store.dispatch({ type: "inc" });
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("replaceReducer", () => {
+    it("uses the new reducer for later dispatches", () => {
+      const store = createStore(reducer, { count: 0 });
+
+      store.replaceReducer((state, action) =>
+        action.type === "inc" ? { count: state.count + 10 } : state,
+      );
+      store.dispatch({ type: "inc" });
+
+      expect(store.getState()).toEqual({ count: 10 });
+    });
+
+    it("keeps the current state", () => {
+      const store = createStore(reducer, { count: 0 });
+      store.dispatch({ type: "inc" });
+
+      store.replaceReducer(reducer);
+
+      expect(store.getState()).toEqual({ count: 1 });
+    });
+
+    it("dispatches a replace action through middleware", () => {
+      const seen: unknown[] = [];
+      const store = createStore(reducer, { count: 0 }, [
+        () => (next) => (action) => {
+          seen.push(action);
+          return next(action);
+        },
+      ]);
+
+      store.replaceReducer(reducer);
+
+      expect(seen).toEqual([{ type: ActionTypes.REPLACE }]);
+    });
+
+    it("notifies listeners only when the new reducer changes state", () => {
+      const store = createStore(reducer, { count: 0 });
+      const listener = jest.fn();
+
+      store.subscribe(listener);
+      store.replaceReducer(reducer);
+      expect(listener).not.toHaveBeenCalled();
+
+      store.replaceReducer((state, action) =>
+        action.type === ActionTypes.REPLACE ? { count: 5 } : state,
+      );
+      expect(listener).toHaveBeenCalledWith({ count: 5 });
+    });
+  });
+
+  describe("enhancers", () => {
+    it("lets an enhancer wrap the store", () => {
+      const states: State[] = [];
+      const logState: StoreEnhancer<State> =
+        (next) => (reducer, initialState, options) => {
+          const store = next(reducer, initialState, options);
+          return {
+            ...store,
+            getState: () => {
+              states.push(store.getState());
+              return store.getState();
+            },
+          };
+        };
+
+      const store = createStore(reducer, { count: 0 }, { enhancer: logState });
+      store.dispatch({ type: "inc" });
+      store.getState();
+
+      expect(states).toEqual([{ count: 1 }]);
+    });
+
+    it("types methods added by an enhancer", () => {
+      const withReset: StoreEnhancer<
+        State,
+        Action,
+        undefined,
+        { reset(): void }
+      > = (next) => (reducer, initialState, options) => {
+        const store = next(
+          (state, action) =>
+            action.type === "reset" ? initialState : reducer(state, action),
+          initialState,
+          options,
+        );
+        return { ...store, reset: () => store.dispatch({ type: "reset" }) };
+      };
+
+      const store = createStore(reducer, { count: 0 }, { enhancer: withReset });
+      store.dispatch({ type: "inc" });
+      store.reset();
+
+      expect(store.getState()).toEqual({ count: 0 });
+    });
+
+    it("passes the remaining options to the inner store", () => {
+      const seen: unknown[] = [];
+      const enhancer: StoreEnhancer<State> =
+        (next) => (reducer, initialState, options) =>
+          next(reducer, initialState, options);
+
+      const store = createStore(
+        reducer,
+        { count: 0 },
+        {
+          enhancer,
+          middlewares: [
+            () => (next) => (action) => {
+              seen.push(action);
+              return next(action);
+            },
+          ],
+        },
+      );
+      store.dispatch({ type: "inc" });
+
+      expect(seen).toEqual([{ type: "inc" }]);
+      expect(store.getState()).toEqual({ count: 1 });
+    });
+  });
+
+  describe("change detection", () => {
+    type Todos = { todos: { text: string }[]; filter: string };
+
+    const todosReducer = (state: Todos, action: Action): Todos => {
+      switch (action.type) {
+        case "copy":
+          return { ...state };
+        case "rebuild":
+          return { ...state, todos: state.todos.map((todo) => ({ ...todo })) };
+        case "setFilter":
+          return { ...state, filter: action.payload as string };
+        case "mutate":
+          state.filter = "mutated";
+          return state;
+        default:
+          return state;
+      }
+    };
+
+    const initialTodos = (): Todos => ({
+      todos: [{ text: "a" }],
+      filter: "all",
+    });
+
+    function setup(changeDetection?: StoreOptions<Todos>["changeDetection"]) {
+      const store = createStore(
+        todosReducer,
+        initialTodos(),
+        changeDetection ? { changeDetection } : {},
+      );
+      const listener = jest.fn();
+      store.subscribe(listener);
+
+      const notifiedBy = (type: string) => {
+        listener.mockClear();
+        store.dispatch({ type, payload: "all" });
+        return listener.mock.calls.length > 0;
+      };
+
+      return { store, notifiedBy };
+    }
+
+    it("deep (default) notifies only when the state differs by value", () => {
+      const { notifiedBy } = setup();
+
+      expect(notifiedBy("copy")).toBe(false);
+      expect(notifiedBy("rebuild")).toBe(false);
+      expect(notifiedBy("setFilter")).toBe(false);
+    });
+
+    it("reference notifies whenever the reducer returns a new object", () => {
+      const { notifiedBy } = setup("reference");
+
+      expect(notifiedBy("noop")).toBe(false);
+      expect(notifiedBy("copy")).toBe(true);
+      expect(notifiedBy("rebuild")).toBe(true);
+    });
+
+    it("shallow notifies when a top-level reference changed", () => {
+      const { notifiedBy } = setup("shallow");
+
+      expect(notifiedBy("copy")).toBe(false);
+      expect(notifiedBy("setFilter")).toBe(false);
+      expect(notifiedBy("rebuild")).toBe(true);
+    });
+
+    it("uses a custom comparator", () => {
+      const { notifiedBy } = setup(
+        (previous, next) => previous.todos.length === next.todos.length,
+      );
+
+      expect(notifiedBy("rebuild")).toBe(false);
+    });
+
+    it("subtree keeps previous references for equal subtrees", () => {
+      const { store, notifiedBy } = setup("subtree");
+      const { todos } = store.getState();
+
+      expect(notifiedBy("rebuild")).toBe(false);
+      expect(store.getState().todos).toBe(todos);
+
+      store.dispatch({ type: "setFilter", payload: "done" });
+      expect(store.getState()).toEqual({
+        todos: [{ text: "a" }],
+        filter: "done",
+      });
+      expect(store.getState().todos).toBe(todos);
+    });
+
+    it.each([
+      "reference",
+      "shallow",
+      "deep",
+      "subtree",
+    ] as const)("%s ignores in-place mutations", (changeDetection) => {
+      const { notifiedBy } = setup(changeDetection);
+
+      expect(notifiedBy("mutate")).toBe(false);
+    });
+  });
 });
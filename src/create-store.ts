@@ -1,61 +1,365 @@
 import type { MiddlewareFunction, ThunkAction } from "./apply-middleware";
 import { applyMiddleware } from "./apply-middleware";
-import { deepEqual } from "./deep-equal";
+import type { ChangeDetection } from "./change-detection";
+import { getEqualityFn, shareSubtrees } from "./change-detection";
+import type { PatchOperation } from "./json-patch";
+import { diff } from "./json-patch";
+import type { TracePhase, Tracer } from "./tracing";
 
 export type Action<P = unknown> = {
   type: string;
   payload?: P;
 };
 
-export type Dispatch<S> = (action: Action | ThunkAction<S>) => void;
+export const ActionTypes = {
+  REPLACE: "@@refluxio/REPLACE",
+} as const;
 
-export type Store<S> = {
+export type Dispatch<S, A extends Action = Action, E = undefined> = (
+  action: A | ThunkAction<S, A, E>,
+) => void;
+
+export type ThunkDispatch<S, A extends Action = Action, E = undefined> = {
+  <R>(thunk: ThunkAction<S, A, E, R>): R;
+  (action: A): void;
+  (action: A | ThunkAction<S, A, E, unknown>): unknown;
+};
+
+export type PatchListener<S, A extends Action = Action> = (
+  state: S,
+  prevState: S,
+  patches: PatchOperation[],
+  action: A,
+) => void;
+
+export type SubscribeOptions = {
+  patches?: boolean;
+};
+
+export type SelectorListener<T> = (selected: T, previousSelected: T) => void;
+
+export type SelectorSubscribeOptions<T> = {
+  equalityFn?: (a: T, b: T) => boolean;
+  fireImmediately?: boolean;
+};
+
+export type Store<S, A extends Action = Action, E = undefined> = {
   getState: () => S;
-  dispatch: Dispatch<S>;
-  subscribe: (listener: (state: S) => void) => () => void;
+  dispatch: ThunkDispatch<S, A, E>;
+  subscribe: {
+    (listener: (state: S) => void): () => void;
+    (listener: PatchListener<S, A>, options: { patches: true }): () => void;
+    <T>(
+      selector: (state: S) => T,
+      listener: SelectorListener<T>,
+      options?: SelectorSubscribeOptions<T>,
+    ): () => void;
+  };
+  batch: <R>(fn: () => R) => R;
+  replaceReducer: (nextReducer: Reducer<S, A>) => void;
 };
 
-export type Reducer<S> = (state: S, action: Action) => S;
+export type Reducer<S, A extends Action = Action> = (state: S, action: A) => S;
+
+export type StoreCreator<
+  S,
+  A extends Action = Action,
+  E = undefined,
+  Ext = unknown,
+> = (
+  reducer: Reducer<S, A>,
+  initialState: S,
+  options?: StoreOptions<S, A, E>,
+) => Store<S, A, E> & Ext;
+
+export type StoreEnhancer<
+  S,
+  A extends Action = Action,
+  E = undefined,
+  Ext = unknown,
+> = (next: StoreCreator<S, A, E>) => StoreCreator<S, A, E, Ext>;
+
+export type StoreOptions<
+  S,
+  A extends Action = Action,
+  E = undefined,
+  Ext = unknown,
+> = {
+  middlewares?: MiddlewareFunction<S, A, E>[];
+  extraArgument?: E;
+  batching?: "none" | "microtask";
+  nestedDispatch?: "throw" | "queue";
+  maxDispatchDepth?: number;
+  tracer?: Tracer;
+  changeDetection?: ChangeDetection<S>;
+  onError?: (error: unknown, action: A) => void;
+  enhancer?: StoreEnhancer<S, A, E, Ext>;
+};
 
-export function createStore<S>(
-  reducer: Reducer<S>,
+export function createStore<
+  S,
+  A extends Action = Action,
+  E = undefined,
+  Ext = unknown,
+>(
+  reducer: Reducer<S, A>,
   initialState: S,
-  middlewares: MiddlewareFunction<S>[] = [],
-): Store<S> {
+  options: MiddlewareFunction<S, A, E>[] | StoreOptions<S, A, E, Ext> = [],
+): Store<S, A, E> & Ext {
+  const { enhancer, ...storeOptions } = Array.isArray(options)
+    ? { middlewares: options }
+    : options;
+
+  // The `middlewares` option is applied by the innermost store
+  if (enhancer) {
+    return enhancer(createStore)(reducer, initialState, storeOptions);
+  }
+
+  const {
+    middlewares = [],
+    extraArgument,
+    batching = "none",
+    changeDetection = "deep",
+    onError,
+    tracer,
+  } = storeOptions;
+  const isEqual = getEqualityFn(changeDetection);
+
+  let currentReducer = reducer;
   let currentState = initialState;
-  const listeners: Set<(state: S) => void> = new Set();
+  const listeners: Set<{
+    listener: PatchListener<S, A>;
+    patches: boolean;
+  }> = new Set();
+  // State and action the next notification reports changes against
+  let notifiedState = initialState;
+  let lastAction: A | undefined;
+
+  let batchDepth = 0;
+  let isNotifying = false;
+  let hasPendingNotification = false;
+  let isFlushScheduled = false;
 
   function getState(): S {
     return currentState;
   }
 
-  function baseDispatch(action: Action | ThunkAction<S>): void {
-    const nextState = reducer(currentState, action as Action);
-    if (!deepEqual(nextState, currentState)) {
+  function trace<R>(
+    phase: TracePhase,
+    name: string,
+    action: A,
+    fn: () => R,
+  ): R {
+    return tracer ? tracer.measure(phase, name, action, fn) : fn();
+  }
+
+  // Listener errors never stop the other listeners or reach `dispatch`
+  function reportListenerError(error: unknown, action: A): void {
+    if (onError) {
+      onError(error, action);
+    } else {
+      console.error(error);
+    }
+  }
+
+  function notifyRound(): void {
+    const state = currentState;
+    const prevState = notifiedState;
+    const action = lastAction as A;
+    notifiedState = state;
+    // Computed once, and only when a listener asked for patches
+    let patches: PatchOperation[] | undefined;
+
+    for (const entry of [...listeners]) {
+      // Unsubscribed by an earlier listener of this round
+      if (!listeners.has(entry)) continue;
+
+      try {
+        if (entry.patches) {
+          patches ??= diff(prevState, state);
+          entry.listener(state, prevState, patches, action);
+        } else {
+          (entry.listener as (state: S) => void)(state);
+        }
+      } catch (error) {
+        reportListenerError(error, action);
+      }
+    }
+  }
+
+  // Every round runs the listeners subscribed when it started, with the same
+  // state. Dispatches made by listeners update the state right away and are
+  // announced in another round once the current one has finished
+  function notifyListeners(): void {
+    if (isNotifying) {
+      hasPendingNotification = true;
+      return;
+    }
+
+    isNotifying = true;
+    try {
+      do {
+        hasPendingNotification = false;
+        trace("listeners", "listeners", lastAction as A, notifyRound);
+      } while (hasPendingNotification);
+    } finally {
+      isNotifying = false;
+    }
+  }
+
+  function flushMicrotask(): void {
+    isFlushScheduled = false;
+    if (hasPendingNotification && batchDepth === 0) {
+      notifyListeners();
+    }
+  }
+
+  function scheduleNotification(): void {
+    if (batchDepth > 0) {
+      hasPendingNotification = true;
+    } else if (batching === "microtask") {
+      hasPendingNotification = true;
+      if (!isFlushScheduled) {
+        isFlushScheduled = true;
+        queueMicrotask(flushMicrotask);
+      }
+    } else {
+      notifyListeners();
+    }
+  }
+
+  function baseDispatch(action: A | ThunkAction<S, A, E>): void {
+    let nextState = trace("reducer", "reducer", action as A, () =>
+      currentReducer(currentState, action as A),
+    );
+
+    const changed = trace("equality", "equality", action as A, () => {
+      if (changeDetection === "subtree") {
+        nextState = shareSubtrees(currentState, nextState);
+      }
+      return !isEqual(currentState, nextState);
+    });
+
+    if (changed) {
       currentState = nextState;
-      listeners.forEach((listener) => {
-        listener(currentState);
-      });
+      lastAction = action as A;
+      scheduleNotification();
+    }
+  }
+
+  // Only the synchronous part of `fn` is batched
+  function batch<R>(fn: () => R): R {
+    batchDepth++;
+    try {
+      return fn();
+    } finally {
+      batchDepth--;
+      if (batchDepth === 0 && hasPendingNotification) {
+        notifyListeners();
+      }
     }
   }
 
-  function subscribe(listener: (state: S) => void): () => void {
-    listeners.add(listener);
+  // With `patches`, listeners also receive what changed since the previous
+  // notification and the last action that changed the state
+  function addListener(
+    listener: PatchListener<S, A>,
+    options: SubscribeOptions = {},
+  ): () => void {
+    const entry = { listener, patches: options.patches ?? false };
+    listeners.add(entry);
 
     return function unsubscribe(): void {
-      listeners.delete(listener);
+      listeners.delete(entry);
     };
   }
 
-  const store: Store<S> = {
+  function subscribeToSelector<T>(
+    selector: (state: S) => T,
+    listener: SelectorListener<T>,
+    options: SelectorSubscribeOptions<T>,
+  ): () => void {
+    const { equalityFn = Object.is, fireImmediately = false } = options;
+    let selected = selector(currentState);
+
+    const unsubscribe = addListener((state) => {
+      const next = selector(state);
+      if (equalityFn(selected, next)) return;
+
+      const previous = selected;
+      selected = next;
+      listener(next, previous);
+    });
+
+    if (fireImmediately) listener(selected, selected);
+    return unsubscribe;
+  }
+
+  function subscribe(
+    selectorOrListener: ((state: S) => unknown) | PatchListener<S, A>,
+    listenerOrOptions?: SelectorListener<unknown> | SubscribeOptions,
+    selectorOptions: SelectorSubscribeOptions<unknown> = {},
+  ): () => void {
+    if (typeof listenerOrOptions === "function") {
+      return subscribeToSelector(
+        selectorOrListener as (state: S) => unknown,
+        listenerOrOptions,
+        selectorOptions,
+      );
+    }
+
+    return addListener(
+      selectorOrListener as PatchListener<S, A>,
+      listenerOrOptions,
+    );
+  }
+
+  function replaceReducer(nextReducer: Reducer<S, A>): void {
+    currentReducer = nextReducer;
+    // Lets the new reducer fill in or drop state; listeners run if it changed
+    store.dispatch({ type: ActionTypes.REPLACE } as A);
+  }
+
+  let dispatchAction: Dispatch<S, A, E> = baseDispatch;
+
+  // Thunks are resolved before the middleware chain so dispatch can return their result
+  function dispatch(action: A | ThunkAction<S, A, E, unknown>): unknown {
+    if (typeof action === "function") {
+      return (action as ThunkAction<S, A, unknown, unknown>)(
+        store.dispatch,
+        getState,
+        extraArgument,
+      );
+    }
+
+    // Reducer and middleware errors go to `onError` when it is set
+    try {
+      return trace("dispatch", action.type, action, () =>
+        dispatchAction(action),
+      );
+    } catch (error) {
+      if (!onError) throw error;
+      onError(error, action);
+      return undefined;
+    }
+  }
+
+  const store: Store<S, A, E> = {
     getState,
-    dispatch: (action: Action | ThunkAction<S>) => baseDispatch(action),
-    subscribe,
+    dispatch: dispatch as ThunkDispatch<S, A, E>,
+    subscribe: subscribe as Store<S, A, E>["subscribe"],
+    batch,
+    replaceReducer,
   };
 
   if (middlewares.length > 0) {
-    store.dispatch = applyMiddleware(store, middlewares);
+    dispatchAction = applyMiddleware(
+      { ...store, dispatch: baseDispatch as ThunkDispatch<S, A, E> },
+      middlewares,
+      extraArgument,
+      storeOptions,
+    );
   }
 
-  return store;
+  return store as Store<S, A, E> & Ext;
 }
@@ -0,0 +1,99 @@
+import { afterAll, describe, expect, it } from "@jest/globals";
+import { deepEqual } from "./deep-equal";
+
+// Run with `npm run bench`; not part of `npm test`
+type Result = { case: string; size: number; "ms/op": string };
+
+const results: Result[] = [];
+
+function bench(
+  name: string,
+  size: number,
+  a: unknown,
+  b: unknown,
+  expected: boolean,
+  iterations = 50,
+): void {
+  it(name, () => {
+    expect(deepEqual(a, b)).toBe(expected);
+
+    const start = performance.now();
+    for (let i = 0; i < iterations; i++) {
+      deepEqual(a, b);
+    }
+    const elapsed = (performance.now() - start) / iterations;
+
+    results.push({ case: name, size, "ms/op": elapsed.toFixed(3) });
+  });
+}
+
+const range = (size: number) => Array.from({ length: size }, (_, i) => i);
+
+const entity = (id: number) => ({
+  id: `user-${id}`,
+  name: `User ${id}`,
+  tags: ["a", "b"],
+  profile: { age: id % 90, active: id % 2 === 0 },
+});
+
+describe("deepEqual benchmarks", () => {
+  afterAll(() => {
+    console.table(results);
+  });
+
+  for (const size of [1_000, 10_000]) {
+    const ids = range(size).map((i) => `id-${i}`);
+    bench("Set of string ids", size, new Set(ids), new Set(ids), true);
+    bench(
+      "Set of string ids, one changed",
+      size,
+      new Set(ids),
+      new Set([...ids.slice(1), "id-new"]),
+      false,
+    );
+
+    // An entity cache updated immutably: entries are shared between states
+    const entities = range(size).map((i) => [`user-${i}`, entity(i)] as const);
+    const cache = new Map(entities);
+    bench("Map entity cache, shared values", size, cache, new Map(cache), true);
+
+    const updated = new Map(cache);
+    updated.set("user-0", { ...entity(0), name: "Renamed" });
+    bench("Map entity cache, one updated", size, cache, updated, false);
+
+    bench(
+      "Map entity cache, rebuilt values",
+      size,
+      cache,
+      new Map(range(size).map((i) => [`user-${i}`, entity(i)])),
+      true,
+    );
+
+    const members = range(size).map(entity);
+    bench(
+      "Set of shared objects",
+      size,
+      new Set(members),
+      new Set(members),
+      true,
+    );
+
+    const state = {
+      session: { userId: "user-1", token: "abc" },
+      users: cache,
+      selected: new Set(ids.slice(0, size / 10)),
+      list: members,
+    };
+    bench("App state", size, state, { ...state, list: [...members] }, true);
+  }
+
+  // Structural fallback: every member needs a structural match
+  bench(
+    "Set of rebuilt objects",
+    500,
+    new Set(range(500).map(entity)),
+    new Set(range(500).map(entity).reverse()),
+    true,
+    3,
+  );
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "@jest/globals";
-import { deepEqual } from "./deep-equal";
+import { createDeepEqual, deepEqual } from "./deep-equal";
 
 describe("deepEqual", () => {
   it("should return true if two primitive values are deeply equal", () => {
@@ -231,3 +231,289 @@ describe("deepEqual – mixed / edge cases", () => {
     ).toBe(false);
   });
 });
+
+describe("deepEqual – binary data", () => {
+  it("typed arrays compare their elements", () => {
+    expect(deepEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(
+      true,
+    );
+    expect(deepEqual(new Uint8Array([1, 2]), new Uint8Array([1, 3]))).toBe(
+      false,
+    );
+    expect(deepEqual(new Uint8Array([1]), new Uint8Array([1, 0]))).toBe(false);
+  });
+
+  it("typed arrays of different types are not equal", () => {
+    expect(deepEqual(new Uint8Array([1]), new Int8Array([1]))).toBe(false);
+  });
+
+  it("float arrays treat NaN as equal", () => {
+    expect(
+      deepEqual(new Float64Array([Number.NaN]), new Float64Array([Number.NaN])),
+    ).toBe(true);
+  });
+
+  it("array buffers compare their bytes", () => {
+    expect(
+      deepEqual(new Uint8Array([1, 2]).buffer, new Uint8Array([1, 2]).buffer),
+    ).toBe(true);
+    expect(
+      deepEqual(new Uint8Array([1, 2]).buffer, new Uint8Array([2, 1]).buffer),
+    ).toBe(false);
+  });
+
+  it("data views compare the bytes they cover", () => {
+    const buffer = new Uint8Array([9, 1, 2]).buffer;
+    expect(
+      deepEqual(
+        new DataView(buffer, 1),
+        new DataView(new Uint8Array([1, 2]).buffer),
+      ),
+    ).toBe(true);
+    expect(
+      deepEqual(
+        new DataView(buffer, 0, 2),
+        new DataView(new Uint8Array([1, 2]).buffer),
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("deepEqual – built-in objects", () => {
+  it("errors compare name, message and cause", () => {
+    expect(deepEqual(new Error("a"), new Error("a"))).toBe(true);
+    expect(deepEqual(new Error("a"), new Error("b"))).toBe(false);
+    expect(deepEqual(new TypeError("a"), new RangeError("a"))).toBe(false);
+    expect(
+      deepEqual(
+        new Error("a", { cause: { id: 1 } }),
+        new Error("a", { cause: { id: 2 } }),
+      ),
+    ).toBe(false);
+  });
+
+  it("errors compare their own enumerable properties", () => {
+    const a = Object.assign(new Error("a"), { code: 1 });
+    const b = Object.assign(new Error("a"), { code: 2 });
+    expect(deepEqual(a, b)).toBe(false);
+  });
+
+  it("URLs compare their href", () => {
+    expect(
+      deepEqual(new URL("https://a.dev/x"), new URL("https://a.dev/x")),
+    ).toBe(true);
+    expect(
+      deepEqual(new URL("https://a.dev/x"), new URL("https://a.dev/y")),
+    ).toBe(false);
+  });
+
+  it("boxed primitives compare their values", () => {
+    expect(deepEqual(Object(1), Object(1))).toBe(true);
+    expect(deepEqual(Object(1), Object(2))).toBe(false);
+    expect(deepEqual(Object("ab"), Object("ba"))).toBe(false);
+    expect(deepEqual(Object(true), Object(false))).toBe(false);
+    expect(deepEqual(Object(1n), Object(2n))).toBe(false);
+  });
+});
+
+describe("createDeepEqual", () => {
+  const key = Symbol("key");
+
+  it("ignores symbol and non-enumerable keys by default", () => {
+    const equal = createDeepEqual({});
+    const a = Object.defineProperty({ [key]: 1 }, "hidden", { value: 1 });
+    const b = Object.defineProperty({ [key]: 2 }, "hidden", { value: 2 });
+
+    expect(equal(a, b)).toBe(true);
+    expect(deepEqual(a, b)).toBe(true);
+  });
+
+  it("compares symbol keys when enabled", () => {
+    const equal = createDeepEqual({ symbols: true });
+
+    expect(equal({ [key]: 1 }, { [key]: 1 })).toBe(true);
+    expect(equal({ [key]: 1 }, { [key]: 2 })).toBe(false);
+    expect(equal({ [key]: 1 }, {})).toBe(false);
+  });
+
+  it("compares non-enumerable keys when enabled", () => {
+    const equal = createDeepEqual({ nonEnumerable: true });
+    const hidden = (value: number) =>
+      Object.defineProperty({}, "hidden", { value });
+
+    expect(equal(hidden(1), hidden(1))).toBe(true);
+    expect(equal(hidden(1), hidden(2))).toBe(false);
+    expect(equal(new Error("a"), new Error("a"))).toBe(true);
+  });
+
+  it("uses custom comparators for registered classes", () => {
+    class Money {
+      constructor(
+        readonly cents: number,
+        readonly formatted: string,
+      ) {}
+    }
+    const equal = createDeepEqual({
+      comparators: [
+        { type: Money, equals: (a: Money, b: Money) => a.cents === b.cents },
+      ],
+    });
+
+    expect(
+      equal({ price: new Money(100, "$1") }, { price: new Money(100, "1 $") }),
+    ).toBe(true);
+    expect(equal(new Money(100, "$1"), new Money(200, "$1"))).toBe(false);
+    expect(deepEqual(new Money(100, "$1"), new Money(100, "1 $"))).toBe(false);
+  });
+
+  it("passes a nested comparison to custom comparators", () => {
+    class Box {
+      constructor(readonly value: unknown) {}
+    }
+    const equal = createDeepEqual({
+      comparators: [
+        {
+          type: Box,
+          equals: (a: Box, b: Box, deepEqual) => deepEqual(a.value, b.value),
+        },
+      ],
+    });
+
+    expect(equal(new Box({ a: [1] }), new Box({ a: [1] }))).toBe(true);
+    expect(equal(new Box({ a: [1] }), new Box({ a: [2] }))).toBe(false);
+  });
+});
+
+describe("deepEqual – Set and Map matching", () => {
+  it("matches structurally equal members in any order", () => {
+    expect(
+      deepEqual(new Set([{ a: 1 }, { a: 2 }]), new Set([{ a: 2 }, { a: 1 }])),
+    ).toBe(true);
+  });
+
+  it("matches each member only once", () => {
+    expect(
+      deepEqual(new Set([{ a: 1 }, { a: 1 }]), new Set([{ a: 1 }, { a: 2 }])),
+    ).toBe(false);
+  });
+
+  it("mixes identical and structural members", () => {
+    const shared = { id: 1 };
+    expect(
+      deepEqual(
+        new Set([shared, 2, { id: 3 }]),
+        new Set([{ id: 3 }, 2, shared]),
+      ),
+    ).toBe(true);
+    expect(deepEqual(new Set([shared, 2]), new Set([shared, 3]))).toBe(false);
+  });
+
+  it("compares values of shared map keys", () => {
+    const key = { id: 1 };
+    expect(
+      deepEqual(new Map([[key, { v: 1 }]]), new Map([[key, { v: 1 }]])),
+    ).toBe(true);
+    expect(
+      deepEqual(new Map([[key, { v: 1 }]]), new Map([[key, { v: 2 }]])),
+    ).toBe(false);
+  });
+
+  it("matches structurally equal map keys in any order", () => {
+    expect(
+      deepEqual(
+        new Map([
+          [{ id: 1 }, "a"],
+          [{ id: 2 }, "b"],
+        ]),
+        new Map([
+          [{ id: 2 }, "b"],
+          [{ id: 1 }, "a"],
+        ]),
+      ),
+    ).toBe(true);
+    expect(
+      deepEqual(
+        new Map([
+          [{ id: 1 }, "a"],
+          [{ id: 2 }, "b"],
+        ]),
+        new Map([
+          [{ id: 1 }, "b"],
+          [{ id: 2 }, "a"],
+        ]),
+      ),
+    ).toBe(false);
+  });
+
+  it("fails fast on a missing primitive key", () => {
+    expect(deepEqual(new Map([["a", 1]]), new Map([["b", 1]]))).toBe(false);
+  });
+
+  it("retries members whose nested objects were paired by a failed attempt", () => {
+    expect(
+      deepEqual(
+        new Set([
+          { p: { v: 1 }, q: 2 },
+          { p: { v: 1 }, q: 1 },
+        ]),
+        new Set([
+          { p: { v: 1 }, q: 1 },
+          { p: { v: 1 }, q: 2 },
+        ]),
+      ),
+    ).toBe(true);
+    expect(
+      deepEqual(
+        new Map([
+          [{ p: { v: 1 }, q: 2 }, "b"],
+          [{ p: { v: 1 }, q: 1 }, "a"],
+        ]),
+        new Map([
+          [{ p: { v: 1 }, q: 1 }, "a"],
+          [{ p: { v: 1 }, q: 2 }, "b"],
+        ]),
+      ),
+    ).toBe(true);
+  });
+
+  it("matches shared map keys with swapped values by structure", () => {
+    const first = { id: 1 };
+    const second = { id: 1 };
+
+    expect(
+      deepEqual(
+        new Map([
+          [first, "a"],
+          [second, "b"],
+        ]),
+        new Map([
+          [first, "b"],
+          [second, "a"],
+        ]),
+      ),
+    ).toBe(true);
+    expect(
+      deepEqual(
+        new Map([
+          [first, "a"],
+          [second, "b"],
+        ]),
+        new Map([
+          [first, "b"],
+          [second, "c"],
+        ]),
+      ),
+    ).toBe(false);
+  });
+
+  it("handles cycles through set members", () => {
+    type Node = { children: Set<Node> };
+    const cyclic = (): Node => {
+      const node: Node = { children: new Set() };
+      node.children.add(node);
+      return node;
+    };
+
+    expect(deepEqual(cyclic(), cyclic())).toBe(true);
+  });
+});
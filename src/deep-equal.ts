@@ -1,7 +1,152 @@
-export function deepEqual(
+export type DeepEqualComparator = {
+  type: abstract new (...args: never[]) => unknown;
+  equals: (
+    a: never,
+    b: never,
+    deepEqual: (a: unknown, b: unknown) => boolean,
+  ) => boolean;
+};
+
+export type DeepEqualOptions = {
+  symbols?: boolean;
+  nonEnumerable?: boolean;
+  comparators?: DeepEqualComparator[];
+};
+
+const defaultOptions: DeepEqualOptions = {};
+
+// Pairings assumed equal while comparing, in the order they were added
+type Seen = {
+  pairs: WeakMap<object, object>;
+  added: object[];
+};
+
+function ownKeys(value: object, options: DeepEqualOptions): PropertyKey[] {
+  if (!options.symbols && !options.nonEnumerable) return Object.keys(value);
+
+  return Reflect.ownKeys(value).filter(
+    (key) =>
+      (options.symbols || typeof key === "string") &&
+      (options.nonEnumerable ||
+        Object.prototype.propertyIsEnumerable.call(value, key)),
+  );
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+function isBoxedPrimitive(value: object): boolean {
+  return (
+    value instanceof Number ||
+    value instanceof String ||
+    value instanceof Boolean ||
+    value instanceof BigInt ||
+    value instanceof Symbol
+  );
+}
+
+function isObjectLike(value: unknown): value is object {
+  return typeof value === "object" && value !== null;
+}
+
+// Pairs up leftovers one to one
+function matchLeftovers<T>(
+  leftoversA: T[],
+  leftoversB: T[],
+  matches: (a: T, b: T) => boolean,
+): boolean {
+  const unmatched = [...leftoversB];
+
+  for (const a of leftoversA) {
+    const index = unmatched.findIndex((b) => matches(a, b));
+    if (index === -1) return false;
+    unmatched.splice(index, 1);
+  }
+  return true;
+}
+
+// Members present in both sets match in O(1); only objects without an
+// identical counterpart are compared structurally
+function setsEqual(
+  setA: Set<unknown>,
+  setB: Set<unknown>,
+  seen: Seen,
+  options: DeepEqualOptions,
+): boolean {
+  if (setA.size !== setB.size) return false;
+
+  const leftoversA: unknown[] = [];
+  for (const value of setA) {
+    if (setB.has(value)) continue;
+    if (!isObjectLike(value)) return false;
+    leftoversA.push(value);
+  }
+
+  if (leftoversA.length === 0) return true;
+
+  const leftoversB: unknown[] = [];
+  for (const value of setB) {
+    if (setA.has(value)) continue;
+    if (!isObjectLike(value)) return false;
+    leftoversB.push(value);
+  }
+
+  return matchLeftovers(leftoversA, leftoversB, (a, b) =>
+    equals(a, b, seen, options),
+  );
+}
+
+// Keys present in both maps are looked up directly; only object keys without
+// an identical counterpart, or whose values differ, are compared structurally
+// together with their values
+function mapsEqual(
+  mapA: Map<unknown, unknown>,
+  mapB: Map<unknown, unknown>,
+  seen: Seen,
+  options: DeepEqualOptions,
+): boolean {
+  if (mapA.size !== mapB.size) return false;
+
+  const leftoversA: [unknown, unknown][] = [];
+  // Shared keys whose values differ may still match another, equal key
+  const unmatchedShared = new Set<unknown>();
+  for (const [key, value] of mapA) {
+    const shared = mapB.has(key);
+    if (shared && equals(value, mapB.get(key), seen, options)) continue;
+    if (!isObjectLike(key)) return false;
+    if (shared) unmatchedShared.add(key);
+    leftoversA.push([key, value]);
+  }
+
+  if (leftoversA.length === 0) return true;
+
+  const leftoversB: [unknown, unknown][] = [];
+  for (const [key, value] of mapB) {
+    if (mapA.has(key) && !unmatchedShared.has(key)) continue;
+    if (!isObjectLike(key)) return false;
+    leftoversB.push([key, value]);
+  }
+
+  return matchLeftovers(
+    leftoversA,
+    leftoversB,
+    ([keyA, valueA], [keyB, valueB]) =>
+      equals(keyA, keyB, seen, options) &&
+      equals(valueA, valueB, seen, options),
+  );
+}
+
+function equals(
   a: unknown,
   b: unknown,
-  seen = new WeakMap<object, object>(),
+  seen: Seen,
+  options: DeepEqualOptions,
 ): boolean {
   // 🔥 HOT PATH #1 — identical or NaN
   if (Object.is(a, b)) return true;
@@ -22,11 +167,29 @@ export function deepEqual(
   if (protoA !== protoB) return false;
 
   // 🔥 HOT PATH #4 — cycle detection
-  const cached = seen.get(a as object);
+  const cached = seen.pairs.get(a as object);
   if (cached === b) return true;
   if (cached !== undefined) return false;
-  seen.set(a as object, b as object);
+  const mark = seen.added.length;
+  seen.pairs.set(a as object, b as object);
+  seen.added.push(a as object);
+
+  // Forget every pairing made on the way to a failure, so later attempts can
+  // pair these objects again
+  const equal = equalObjects(a, b, protoA, seen, options);
+  if (!equal) {
+    for (const key of seen.added.splice(mark)) seen.pairs.delete(key);
+  }
+  return equal;
+}
 
+function equalObjects(
+  a: object,
+  b: object,
+  protoA: unknown,
+  seen: Seen,
+  options: DeepEqualOptions,
+): boolean {
   // Array (VERY HOT PATH)
   if (Array.isArray(a)) {
     const arrA = a as unknown[];
@@ -37,11 +200,26 @@ export function deepEqual(
     if (lenA !== lenB) return false;
 
     for (let i = 0; i < lenA; i++) {
-      if (!deepEqual(arrA[i], arrB[i], seen)) return false;
+      if (!equals(arrA[i], arrB[i], seen, options)) return false;
     }
     return true;
   }
 
+  // Plain object (HOT PATH) — skips the checks for built-in types
+  if (protoA === Object.prototype || protoA === null) {
+    return keysEqual(a, b, seen, options);
+  }
+
+  if (options.comparators) {
+    for (const { type, equals: compare } of options.comparators) {
+      if (a instanceof type) {
+        return compare(a as never, b as never, (x, y) =>
+          equals(x, y, seen, options),
+        );
+      }
+    }
+  }
+
   // Date
   if (a instanceof Date) {
     return (a as Date).getTime() === (b as Date).getTime();
@@ -54,54 +232,96 @@ export function deepEqual(
     return ra.source === rb.source && ra.flags === rb.flags;
   }
 
-  // Set
-  if (a instanceof Set) {
-    const setA = a as Set<unknown>;
-    const setB = b as Set<unknown>;
-    if (setA.size !== setB.size) return false;
-
-    for (const av of setA) {
-      let found = false;
-      for (const bv of setB) {
-        if (deepEqual(av, bv, seen)) {
-          found = true;
-          break;
-        }
+  // Typed arrays and DataView
+  if (ArrayBuffer.isView(a)) {
+    const viewB = b as ArrayBufferView;
+    if (!(a instanceof DataView)) {
+      const arrA = a as unknown as ArrayLike<unknown>;
+      const arrB = viewB as unknown as ArrayLike<unknown>;
+      if (arrA.length !== arrB.length) return false;
+
+      for (let i = 0; i < arrA.length; i++) {
+        if (!Object.is(arrA[i], arrB[i])) return false;
       }
-      if (!found) return false;
+      return true;
     }
-    return true;
+
+    return bytesEqual(
+      new Uint8Array(a.buffer, a.byteOffset, a.byteLength),
+      new Uint8Array(viewB.buffer, viewB.byteOffset, viewB.byteLength),
+    );
+  }
+
+  // ArrayBuffer and SharedArrayBuffer
+  if (
+    a instanceof ArrayBuffer ||
+    protoA === globalThis.SharedArrayBuffer?.prototype
+  ) {
+    return bytesEqual(
+      new Uint8Array(a as ArrayBuffer),
+      new Uint8Array(b as ArrayBuffer),
+    );
+  }
+
+  // Number, String, Boolean, BigInt and Symbol objects
+  if (isBoxedPrimitive(a)) {
+    return Object.is(a.valueOf(), b.valueOf());
+  }
+
+  // URL
+  if (typeof URL !== "undefined" && a instanceof URL) {
+    return a.href === (b as URL).href;
+  }
+
+  // Error (message, name and cause are not enumerable)
+  if (a instanceof Error) {
+    const errB = b as Error;
+    if (
+      a.name !== errB.name ||
+      a.message !== errB.message ||
+      !equals(a.cause, errB.cause, seen, options)
+    ) {
+      return false;
+    }
+  }
+
+  // Set
+  if (a instanceof Set) {
+    return setsEqual(a, b as Set<unknown>, seen, options);
   }
 
   // Map
   if (a instanceof Map) {
-    const mapA = a as Map<unknown, unknown>;
-    const mapB = b as Map<unknown, unknown>;
-    if (mapA.size !== mapB.size) return false;
-
-    for (const [ak, av] of mapA) {
-      let found = false;
-      for (const [bk, bv] of mapB) {
-        if (deepEqual(ak, bk, seen) && deepEqual(av, bv, seen)) {
-          found = true;
-          break;
-        }
-      }
-      if (!found) return false;
-    }
-    return true;
+    return mapsEqual(a, b as Map<unknown, unknown>, seen, options);
   }
 
-  // Plain object (keys only, no symbols — intentional for speed)
-  const keysA = Object.keys(a as object);
-  const keysB = Object.keys(b as object);
+  // Stack traces differ between otherwise equal errors
+  const ignoredKey = a instanceof Error ? "stack" : undefined;
+  return keysEqual(a, b, seen, options, ignoredKey);
+}
+
+// Own string keys only, unless `symbols` or `nonEnumerable` is set
+function keysEqual(
+  a: object,
+  b: object,
+  seen: Seen,
+  options: DeepEqualOptions,
+  ignoredKey?: PropertyKey,
+): boolean {
+  let keysA = ownKeys(a, options);
+  let keysB = ownKeys(b, options);
+
+  if (ignoredKey !== undefined) {
+    keysA = keysA.filter((key) => key !== ignoredKey);
+    keysB = keysB.filter((key) => key !== ignoredKey);
+  }
 
-  const objA = a as Record<string, unknown>;
-  const objB = b as Record<string, unknown>;
+  const objA = a as Record<PropertyKey, unknown>;
+  const objB = b as Record<PropertyKey, unknown>;
 
   for (const key of keysA) {
     if (!(key in objB)) return false;
-    if (!deepEqual(objA[key], objB[key], seen)) return false;
+    if (!equals(objA[key], objB[key], seen, options)) return false;
   }
 
   const len = keysA.length;
@@ -109,3 +329,17 @@ export function deepEqual(
 
   return true;
 }
+
+export function deepEqual(
+  a: unknown,
+  b: unknown,
+  seen = new WeakMap<object, object>(),
+): boolean {
+  return equals(a, b, { pairs: seen, added: [] }, defaultOptions);
+}
+
+export function createDeepEqual(
+  options: DeepEqualOptions,
+): (a: unknown, b: unknown) => boolean {
+  return (a, b) => equals(a, b, { pairs: new WeakMap(), added: [] }, options);
+}
@@ -0,0 +1,211 @@
+import type { Action, Reducer } from "./create-store";
+import { createStore } from "./create-store";
+import type { DevCheckOptions } from "./dev-checks";
+import { devChecks } from "./dev-checks";
+
+describe("devChecks", () => {
+  type State = { todos: { text: string; done: boolean }[]; meta?: unknown };
+
+  const reducer = (state: State, action: Action): State => {
+    switch (action.type) {
+      case "add":
+        return {
+          ...state,
+          todos: [
+            ...state.todos,
+            { text: action.payload as string, done: false },
+          ],
+        };
+      case "toggleInPlace": {
+        const todo = state.todos[action.payload as number];
+        if (todo) todo.done = !todo.done;
+        return state;
+      }
+      case "setMeta":
+        return { ...state, meta: action.payload };
+      default:
+        return state;
+    }
+  };
+
+  const initialState = (): State => ({
+    todos: [{ text: "write tests", done: false }],
+  });
+
+  function setup(
+    options: DevCheckOptions = {},
+    storeReducer: Reducer<State> = reducer,
+  ) {
+    const warn = jest.fn();
+    const store = createStore(storeReducer, initialState(), {
+      enhancer: devChecks<State>({ warn, ...options }),
+    });
+
+    return { store, warn };
+  }
+
+  describe("mutations", () => {
+    it("reports mutations made by a reducer with the key path", () => {
+      const { store } = setup();
+
+      expect(() =>
+        store.dispatch({ type: "toggleInPlace", payload: 0 }),
+      ).toThrow(
+        'A state mutation was detected while reducing "toggleInPlace" at "todos.0.done".',
+      );
+    });
+
+    it("reports mutations made between dispatches", () => {
+      const { store } = setup();
+      store.dispatch({ type: "add", payload: "ship" });
+
+      store.getState().todos.push({ text: "sneaky", done: false });
+
+      expect(() => store.dispatch({ type: "noop" })).toThrow(
+        'A state mutation was detected between dispatches at "todos.2".',
+      );
+    });
+
+    it("skips ignored paths", () => {
+      const { store } = setup({ ignoredPaths: ["todos"] });
+
+      expect(() =>
+        store.dispatch({ type: "toggleInPlace", payload: 0 }),
+      ).not.toThrow();
+    });
+
+    it("freezes the state in freeze mode", () => {
+      const { store } = setup({ mutations: "freeze" });
+      store.dispatch({ type: "add", payload: "ship" });
+
+      expect(Object.isFrozen(store.getState().todos[1])).toBe(true);
+      expect(() =>
+        store.dispatch({ type: "toggleInPlace", payload: 1 }),
+      ).toThrow(TypeError);
+    });
+
+    it("allows immutable updates", () => {
+      const { store, warn } = setup();
+
+      store.dispatch({ type: "add", payload: "ship" });
+      store.dispatch({ type: "noop" });
+
+      expect(store.getState().todos).toHaveLength(2);
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("serializability", () => {
+    it("warns about non-serializable actions", () => {
+      const { store, warn } = setup();
+
+      store.dispatch({ type: "setMeta", payload: { callback: () => {} } });
+
+      expect(warn).toHaveBeenCalledWith(
+        'A non-serializable value was found in the action "setMeta" at "payload.callback".',
+      );
+    });
+
+    it.each([
+      ["a class instance", new Date(0)],
+      ["a promise", Promise.resolve()],
+      ["a map", new Map()],
+    ])("warns about %s in the state", (_name, value) => {
+      const { store, warn } = setup({ ignoredActions: ["setMeta"] });
+
+      store.dispatch({ type: "setMeta", payload: value });
+
+      expect(warn).toHaveBeenCalledWith(
+        'A non-serializable value was found in the state at "meta".',
+      );
+    });
+
+    it("can be disabled", () => {
+      const { store, warn } = setup({ serializable: false });
+
+      store.dispatch({ type: "setMeta", payload: new Date(0) });
+
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("cycles", () => {
+    type Node = { n: number; self?: Node };
+
+    const cyclic = (n: number): Node => {
+      const node: Node = { n };
+      node.self = node;
+      return node;
+    };
+
+    const cyclicReducer = (state: State, action: Action): State =>
+      action.type === "setNode" ? { ...state, meta: cyclic(1) } : state;
+
+    it("walks cyclic state in every mode", () => {
+      for (const mutations of ["snapshot", "freeze"] as const) {
+        const { store, warn } = setup(
+          { mutations, serializable: false },
+          cyclicReducer,
+        );
+
+        store.dispatch({ type: "setNode" });
+
+        expect(warn).not.toHaveBeenCalled();
+        expect((store.getState().meta as Node).self?.n).toBe(1);
+      }
+    });
+
+    it("detects mutations inside cyclic state", () => {
+      const { store } = setup({ serializable: false }, cyclicReducer);
+      store.dispatch({ type: "setNode" });
+
+      (store.getState().meta as Node).n = 2;
+
+      expect(() => store.dispatch({ type: "noop" })).toThrow(
+        'A state mutation was detected between dispatches at "meta.n".',
+      );
+    });
+
+    it("reports cycles as non-serializable", () => {
+      const { store, warn } = setup({}, cyclicReducer);
+
+      store.dispatch({ type: "setNode" });
+
+      expect(warn).toHaveBeenCalledWith(
+        'A non-serializable value was found in the state at "meta.self".',
+      );
+    });
+  });
+
+  describe("reducer sanity", () => {
+    it("flags reducers that return undefined", () => {
+      const { store } = setup({}, (state, action) =>
+        action.type === "broken" ? (undefined as unknown as State) : state,
+      );
+
+      expect(() => store.dispatch({ type: "broken" })).toThrow(
+        'The reducer returned undefined for the action "broken". Return the previous state instead.',
+      );
+    });
+
+    it("checks reducers passed to replaceReducer", () => {
+      const { store } = setup();
+
+      expect(() =>
+        store.replaceReducer(() => undefined as unknown as State),
+      ).toThrow("The reducer returned undefined");
+    });
+  });
+
+  describe("timing", () => {
+    it("reports checks that take longer than warnAfter", () => {
+      const { store, warn } = setup({ warnAfter: -1 });
+
+      store.dispatch({ type: "noop" });
+
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringMatching(/^Dev checks took \d+ms while reducing "noop"/),
+      );
+    });
+  });
+});
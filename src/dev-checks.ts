@@ -0,0 +1,232 @@
+import type { Action, Reducer, StoreEnhancer } from "./create-store";
+
+export type DevCheckOptions = {
+  mutations?: "snapshot" | "freeze" | false;
+  serializable?: boolean;
+  ignoredPaths?: string[];
+  ignoredActions?: string[];
+  warnAfter?: number;
+  warn?: (message: string) => void;
+};
+
+type Tracked = {
+  value: unknown;
+  children: Map<string, Tracked>;
+};
+
+function isObjectLike(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function formatPath(path: string[]): string {
+  return path.length === 0 ? "(root)" : path.join(".");
+}
+
+// Objects reached twice share one snapshot, which also ends cycles
+function track(
+  value: unknown,
+  path: string[],
+  ignored: string[],
+  seen = new WeakMap<object, Tracked>(),
+): Tracked {
+  const children = new Map<string, Tracked>();
+  const tracked = { value, children };
+
+  if (isObjectLike(value)) {
+    const existing = seen.get(value);
+    if (existing) return existing;
+    seen.set(value, tracked);
+
+    for (const key of Object.keys(value)) {
+      const childPath = [...path, key];
+      if (!ignored.includes(childPath.join("."))) {
+        children.set(key, track(value[key], childPath, ignored, seen));
+      }
+    }
+  }
+
+  return tracked;
+}
+
+// Returns the path of the first property that no longer matches the snapshot
+function findMutation(
+  tracked: Tracked,
+  value: unknown,
+  path: string[],
+  ignored: string[],
+  checked = new WeakSet<Tracked>(),
+): string[] | undefined {
+  if (tracked.value !== value) return path;
+  if (!isObjectLike(value) || checked.has(tracked)) return undefined;
+  checked.add(tracked);
+
+  const keys = new Set([...tracked.children.keys(), ...Object.keys(value)]);
+  for (const key of keys) {
+    const childPath = [...path, key];
+    if (ignored.includes(childPath.join("."))) continue;
+
+    const child = tracked.children.get(key);
+    if (!child) return childPath;
+
+    const mutated = findMutation(
+      child,
+      value[key],
+      childPath,
+      ignored,
+      checked,
+    );
+    if (mutated) return mutated;
+  }
+
+  return undefined;
+}
+
+// A value that contains itself is reported where the cycle closes
+function findNonSerializable(
+  value: unknown,
+  path: string[],
+  ignored: string[],
+  ancestors = new WeakSet<object>(),
+): string[] | undefined {
+  if (ignored.includes(path.join("."))) return undefined;
+
+  switch (typeof value) {
+    case "string":
+    case "number":
+    case "boolean":
+    case "undefined":
+      return undefined;
+    case "object":
+      break;
+    default:
+      return path;
+  }
+
+  if (value === null) return undefined;
+
+  const proto = Object.getPrototypeOf(value);
+  if (!Array.isArray(value) && proto !== Object.prototype && proto !== null) {
+    return path;
+  }
+  if (ancestors.has(value)) return path;
+
+  ancestors.add(value);
+  for (const [key, child] of Object.entries(value)) {
+    const found = findNonSerializable(
+      child,
+      [...path, key],
+      ignored,
+      ancestors,
+    );
+    if (found) return found;
+  }
+  ancestors.delete(value);
+
+  return undefined;
+}
+
+// Freezing before walking the children also stops at cycles
+function deepFreeze(value: unknown): void {
+  if (!isObjectLike(value) || Object.isFrozen(value)) return;
+
+  Object.freeze(value);
+  for (const key of Object.keys(value)) {
+    deepFreeze(value[key]);
+  }
+}
+
+export function devChecks<S, A extends Action = Action, E = undefined>(
+  options: DevCheckOptions = {},
+): StoreEnhancer<S, A, E> {
+  const {
+    mutations = "snapshot",
+    serializable = true,
+    ignoredPaths = [],
+    ignoredActions = [],
+    warnAfter = 32,
+    warn = console.warn,
+  } = options;
+
+  function checkSerializable(value: unknown, description: string): void {
+    const path = findNonSerializable(value, [], ignoredPaths);
+    if (path) {
+      warn(
+        `A non-serializable value was found in ${description} at "${formatPath(path)}".`,
+      );
+    }
+  }
+
+  function assertNotMutated(
+    tracked: Tracked,
+    state: unknown,
+    when: string,
+  ): void {
+    const path = findMutation(tracked, state, [], ignoredPaths);
+    if (path) {
+      throw new Error(
+        `A state mutation was detected ${when} at "${formatPath(path)}".`,
+      );
+    }
+  }
+
+  function withChecks(reducer: Reducer<S, A>): Reducer<S, A> {
+    let tracked: Tracked | undefined;
+
+    return function checked(state: S, action: A): S {
+      let started = performance.now();
+
+      if (mutations === "snapshot") {
+        if (tracked?.value === state) {
+          assertNotMutated(tracked, state, "between dispatches");
+        } else {
+          tracked = track(state, [], ignoredPaths);
+        }
+      }
+      if (serializable && !ignoredActions.includes(action.type)) {
+        checkSerializable(action, `the action "${action.type}"`);
+      }
+
+      let elapsed = performance.now() - started;
+      const nextState = reducer(state, action);
+      started = performance.now();
+
+      if (nextState === undefined) {
+        throw new Error(
+          `The reducer returned undefined for the action "${action.type}". Return the previous state instead.`,
+        );
+      }
+
+      if (mutations === "snapshot" && tracked) {
+        assertNotMutated(tracked, state, `while reducing "${action.type}"`);
+        tracked = track(nextState, [], ignoredPaths);
+      } else if (mutations === "freeze") {
+        deepFreeze(nextState);
+      }
+      if (serializable) {
+        checkSerializable(nextState, "the state");
+      }
+
+      elapsed += performance.now() - started;
+      if (elapsed > warnAfter) {
+        warn(
+          `Dev checks took ${Math.round(elapsed)}ms while reducing "${action.type}", more than ${warnAfter}ms. Skip large parts of the state with ignoredPaths or disable some checks.`,
+        );
+      }
+
+      return nextState;
+    };
+  }
+
+  return (next) => (reducer, initialState, storeOptions) => {
+    if (mutations === "freeze") deepFreeze(initialState);
+
+    const store = next(withChecks(reducer), initialState, storeOptions);
+
+    return {
+      ...store,
+      replaceReducer: (nextReducer) => {
+        store.replaceReducer(withChecks(nextReducer));
+      },
+    };
+  };
+}
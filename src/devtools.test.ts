@@ -0,0 +1,216 @@
+import type { Action } from "./create-store";
+import { createStore } from "./create-store";
+import type {
+  DevToolsConnection,
+  DevToolsMessage,
+  LiftedState,
+} from "./devtools";
+import { connectDevTools } from "./devtools";
+
+describe("connectDevTools", () => {
+  type State = { count: number };
+
+  const reducer = (state: State, action: Action): State => {
+    switch (action.type) {
+      case "inc":
+        return { count: state.count + 1 };
+      case "add":
+        return { count: state.count + (action.payload as number) };
+      default:
+        return state;
+    }
+  };
+
+  function mockExtension() {
+    const listeners: ((message: DevToolsMessage) => void)[] = [];
+    const unsubscribe = jest.fn();
+    const connection = {
+      init: jest.fn(),
+      send: jest.fn(),
+      subscribe: jest.fn((listener: (message: DevToolsMessage) => void) => {
+        listeners.push(listener);
+        return unsubscribe;
+      }),
+    } satisfies DevToolsConnection;
+    const extension = { connect: jest.fn(() => connection) };
+
+    Object.assign(globalThis, { __REDUX_DEVTOOLS_EXTENSION__: extension });
+
+    return {
+      extension,
+      connection,
+      unsubscribe,
+      message: (message: DevToolsMessage) => {
+        listeners.forEach((listener) => {
+          listener(message);
+        });
+      },
+    };
+  }
+
+  function setup(options = {}) {
+    const devtools = mockExtension();
+    const store = createStore(reducer, { count: 0 });
+    const disconnect = connectDevTools(store, reducer, options);
+
+    return { ...devtools, store, disconnect };
+  }
+
+  const lastLiftedState = (send: jest.Mock) =>
+    send.mock.calls.at(-1)?.[1] as LiftedState<State>;
+
+  afterEach(() => {
+    Reflect.deleteProperty(globalThis, "__REDUX_DEVTOOLS_EXTENSION__");
+  });
+
+  it("does nothing without the extension", () => {
+    const store = createStore(reducer, { count: 0 });
+    const disconnect = connectDevTools(store, reducer);
+
+    store.dispatch({ type: "inc" });
+    disconnect();
+
+    expect(store.getState()).toEqual({ count: 1 });
+  });
+
+  it("connects with the given options and sends the initial state", () => {
+    const { extension, connection } = setup({ name: "app", maxAge: 10 });
+
+    expect(extension.connect).toHaveBeenCalledWith({ name: "app", maxAge: 10 });
+    expect(connection.init).toHaveBeenCalledWith({ count: 0 });
+    expect(connection.send).not.toHaveBeenCalled();
+  });
+
+  it("sends every action with the resulting state", () => {
+    const { connection, store } = setup();
+
+    store.dispatch({ type: "inc" });
+    store.dispatch({ type: "noop" });
+
+    expect(connection.send.mock.calls).toEqual([
+      [{ type: "inc" }, { count: 1 }],
+      [{ type: "noop" }, { count: 1 }],
+    ]);
+  });
+
+  it("jumps to the state sent by the panel", () => {
+    const { connection, store, message } = setup();
+    store.dispatch({ type: "inc" });
+    store.dispatch({ type: "inc" });
+
+    message({
+      type: "DISPATCH",
+      payload: { type: "JUMP_TO_STATE" },
+      state: JSON.stringify({ count: 1 }),
+    });
+
+    expect(store.getState()).toEqual({ count: 1 });
+    expect(connection.send).toHaveBeenCalledTimes(2);
+  });
+
+  it("recomputes the state when an action is toggled", () => {
+    const { connection, store, message } = setup();
+    store.dispatch({ type: "add", payload: 10 });
+    store.dispatch({ type: "inc" });
+
+    message({ type: "DISPATCH", payload: { type: "TOGGLE_ACTION", id: 1 } });
+
+    expect(store.getState()).toEqual({ count: 1 });
+    expect(lastLiftedState(connection.send)).toMatchObject({
+      skippedActionIds: [1],
+      stagedActionIds: [0, 1, 2],
+      computedStates: [
+        { state: { count: 0 } },
+        { state: { count: 0 } },
+        { state: { count: 1 } },
+      ],
+    });
+
+    message({ type: "DISPATCH", payload: { type: "TOGGLE_ACTION", id: 1 } });
+
+    expect(store.getState()).toEqual({ count: 11 });
+  });
+
+  it("commits the current state and rolls back to it", () => {
+    const { connection, store, message } = setup();
+    store.dispatch({ type: "inc" });
+
+    message({ type: "DISPATCH", payload: { type: "COMMIT" } });
+    expect(connection.init).toHaveBeenLastCalledWith({ count: 1 });
+
+    store.dispatch({ type: "add", payload: 5 });
+    message({ type: "DISPATCH", payload: { type: "ROLLBACK" } });
+
+    expect(store.getState()).toEqual({ count: 1 });
+  });
+
+  it("imports a lifted state exported from the panel", () => {
+    const { connection, store, message } = setup();
+    const nextLiftedState: LiftedState<State> = {
+      actionsById: {
+        0: { type: "PERFORM_ACTION", action: { type: "@@INIT" }, timestamp: 0 },
+        4: { type: "PERFORM_ACTION", action: { type: "inc" }, timestamp: 1 },
+      },
+      computedStates: [{ state: { count: 3 } }, { state: { count: 4 } }],
+      committedState: { count: 3 },
+      currentStateIndex: 1,
+      nextActionId: 5,
+      skippedActionIds: [],
+      stagedActionIds: [0, 4],
+    };
+
+    message({
+      type: "DISPATCH",
+      payload: { type: "IMPORT_STATE", nextLiftedState },
+    });
+
+    expect(store.getState()).toEqual({ count: 4 });
+    expect(connection.send).toHaveBeenLastCalledWith(null, nextLiftedState);
+
+    store.dispatch({ type: "inc" });
+    message({ type: "DISPATCH", payload: { type: "TOGGLE_ACTION", id: 4 } });
+
+    expect(store.getState()).toEqual({ count: 4 });
+    expect(lastLiftedState(connection.send).stagedActionIds).toEqual([0, 4, 5]);
+  });
+
+  it("keeps recording after the reducer is replaced", () => {
+    const { connection, store } = setup();
+
+    store.replaceReducer((state, action) =>
+      action.type === "double" ? { count: state.count * 2 + 2 } : state,
+    );
+    store.dispatch({ type: "double" });
+
+    expect(connection.send).toHaveBeenLastCalledWith(
+      { type: "double" },
+      { count: 2 },
+    );
+  });
+
+  it("drops the oldest actions past maxAge", () => {
+    const { connection, store, message } = setup({ maxAge: 2 });
+
+    store.dispatch({ type: "inc" });
+    store.dispatch({ type: "inc" });
+    store.dispatch({ type: "inc" });
+    message({ type: "DISPATCH", payload: { type: "TOGGLE_ACTION", id: 3 } });
+
+    expect(lastLiftedState(connection.send)).toMatchObject({
+      committedState: { count: 1 },
+      stagedActionIds: [0, 2, 3],
+    });
+    expect(store.getState()).toEqual({ count: 2 });
+  });
+
+  it("disconnect stops recording", () => {
+    const { connection, store, unsubscribe, disconnect } = setup();
+
+    disconnect();
+    store.dispatch({ type: "inc" });
+
+    expect(unsubscribe).toHaveBeenCalled();
+    expect(connection.send).not.toHaveBeenCalled();
+    expect(store.getState()).toEqual({ count: 1 });
+  });
+});
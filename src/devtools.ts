@@ -0,0 +1,230 @@
+import type { Action, Reducer, Store } from "./create-store";
+
+export type LiftedAction = {
+  type: "PERFORM_ACTION";
+  action: Action;
+  timestamp: number;
+};
+
+export type LiftedState<S> = {
+  actionsById: Record<number, LiftedAction>;
+  computedStates: { state: S }[];
+  committedState: S;
+  currentStateIndex: number;
+  nextActionId: number;
+  skippedActionIds: number[];
+  stagedActionIds: number[];
+};
+
+export type DevToolsMessage<S = unknown> = {
+  type: string;
+  state?: string;
+  payload?: {
+    type: string;
+    id?: number;
+    nextLiftedState?: LiftedState<S>;
+  };
+};
+
+export type DevToolsConnection = {
+  init: (state: unknown) => void;
+  send: (action: Action | null, state: unknown) => void;
+  subscribe: (listener: (message: DevToolsMessage) => void) => () => void;
+};
+
+export type DevToolsExtension = {
+  connect: (options: { name?: string; maxAge?: number }) => DevToolsConnection;
+};
+
+export type DevToolsOptions = {
+  name?: string;
+  maxAge?: number;
+};
+
+type Entry<S> = {
+  id: number;
+  action: Action;
+  timestamp: number;
+  state: S;
+};
+
+export const DevToolsActionTypes = {
+  SET_STATE: "@@refluxio/devtools/SET_STATE",
+} as const;
+
+const INIT_ACTION: LiftedAction = {
+  type: "PERFORM_ACTION",
+  action: { type: "@@INIT" },
+  timestamp: 0,
+};
+
+function getExtension(): DevToolsExtension | undefined {
+  return (globalThis as { __REDUX_DEVTOOLS_EXTENSION__?: DevToolsExtension })
+    .__REDUX_DEVTOOLS_EXTENSION__;
+}
+
+export function connectDevTools<S, A extends Action = Action, E = undefined>(
+  store: Store<S, A, E>,
+  reducer: Reducer<S, A>,
+  options: DevToolsOptions = {},
+): () => void {
+  const extension = getExtension();
+  if (!extension) return () => {};
+
+  const { name, maxAge = 50 } = options;
+  const connection = extension.connect({
+    ...(name === undefined ? {} : { name }),
+    maxAge,
+  });
+  const replaceReducer = store.replaceReducer;
+
+  let currentReducer = reducer;
+  let committedState = store.getState();
+  let entries: Entry<S>[] = [];
+  let skipped: Set<number> = new Set();
+  let nextId = 1;
+  let isRecording = false;
+
+  function liftedState(): LiftedState<S> {
+    const actionsById: Record<number, LiftedAction> = { 0: INIT_ACTION };
+    for (const { id, action, timestamp } of entries) {
+      actionsById[id] = { type: "PERFORM_ACTION", action, timestamp };
+    }
+
+    return {
+      actionsById,
+      computedStates: [
+        { state: committedState },
+        ...entries.map(({ state }) => ({ state })),
+      ],
+      committedState,
+      currentStateIndex: entries.length,
+      nextActionId: nextId,
+      skippedActionIds: [...skipped],
+      stagedActionIds: [0, ...entries.map(({ id }) => id)],
+    };
+  }
+
+  function record(action: Action, state: S): void {
+    entries.push({ id: nextId++, action, timestamp: Date.now(), state });
+
+    if (entries.length > maxAge) {
+      const oldest = entries.shift() as Entry<S>;
+      committedState = oldest.state;
+      skipped.delete(oldest.id);
+    }
+
+    connection.send(action, state);
+  }
+
+  function lift(next: Reducer<S, A>): Reducer<S, A> {
+    return function devtools(state: S, action: A): S {
+      if (action.type === DevToolsActionTypes.SET_STATE) {
+        return action.payload as S;
+      }
+
+      const nextState = next(state, action);
+      if (isRecording) record(action, nextState);
+      return nextState;
+    };
+  }
+
+  function setState(state: S): void {
+    store.dispatch({
+      type: DevToolsActionTypes.SET_STATE,
+      payload: state,
+    } as A);
+  }
+
+  // Replays the staged actions, leaving out the skipped ones
+  function recompute(): S {
+    let state = committedState;
+    for (const entry of entries) {
+      if (!skipped.has(entry.id)) {
+        state = currentReducer(state, entry.action as A);
+      }
+      entry.state = state;
+    }
+    return state;
+  }
+
+  function commit(state: S): void {
+    committedState = state;
+    entries = [];
+    skipped = new Set();
+    connection.init(state);
+  }
+
+  function importState(lifted: LiftedState<S>): void {
+    const { actionsById, computedStates, stagedActionIds } = lifted;
+
+    committedState = (computedStates[0] as { state: S }).state;
+    entries = stagedActionIds.slice(1).map((id, index) => ({
+      id,
+      action: (actionsById[id] as LiftedAction).action,
+      timestamp: (actionsById[id] as LiftedAction).timestamp,
+      state: (computedStates[index + 1] as { state: S }).state,
+    }));
+    skipped = new Set(lifted.skippedActionIds);
+    nextId = Math.max(0, ...stagedActionIds) + 1;
+
+    const current = computedStates[lifted.currentStateIndex];
+    if (current) setState(current.state);
+    connection.send(null, lifted);
+  }
+
+  function handleMessage(message: DevToolsMessage): void {
+    if (message.type !== "DISPATCH" || !message.payload) return;
+
+    isRecording = false;
+    try {
+      switch (message.payload.type) {
+        case "JUMP_TO_STATE":
+        case "JUMP_TO_ACTION":
+          if (message.state !== undefined) {
+            setState(JSON.parse(message.state) as S);
+          }
+          break;
+        case "TOGGLE_ACTION": {
+          const { id } = message.payload;
+          if (id === undefined) break;
+          if (!skipped.delete(id)) skipped.add(id);
+          setState(recompute());
+          connection.send(null, liftedState());
+          break;
+        }
+        case "COMMIT":
+          commit(store.getState());
+          break;
+        case "ROLLBACK":
+          setState(committedState);
+          commit(committedState);
+          break;
+        case "IMPORT_STATE":
+          if (message.payload.nextLiftedState) {
+            importState(message.payload.nextLiftedState as LiftedState<S>);
+          }
+          break;
+      }
+    } finally {
+      isRecording = true;
+    }
+  }
+
+  store.replaceReducer = (nextReducer) => {
+    currentReducer = nextReducer;
+    replaceReducer(lift(nextReducer));
+  };
+  store.replaceReducer(reducer);
+
+  isRecording = true;
+  connection.init(committedState);
+  const unsubscribe = connection.subscribe(handleMessage);
+
+  return function disconnect(): void {
+    unsubscribe();
+    isRecording = false;
+    store.replaceReducer = replaceReducer;
+    replaceReducer(currentReducer);
+  };
+}
@@ -1,2 +1,22 @@
+export * from "./apply-middleware";
+export * from "./change-detection";
+export * from "./combine-reducers";
+export * from "./compose";
+export * from "./create-action";
+export * from "./create-selector";
+export * from "./create-slice";
 export * from "./create-store";
+export * from "./deep-equal";
+export * from "./dev-checks";
+export * from "./devtools";
+export * from "./json-patch";
+export * from "./listener-middleware";
+export * from "./persist";
 export * from "./react";
+export * from "./recorder";
+export * from "./reducer-registry";
+export * from "./saga-effects";
+export * from "./saga-middleware";
+export * from "./shallow-equal";
+export * from "./tracing";
+export * from "./undoable";
@@ -0,0 +1,138 @@
+import type { PatchOperation } from "./json-patch";
+import { applyPatch, diff } from "./json-patch";
+
+describe("diff", () => {
+  it("returns no operations for equal values", () => {
+    expect(diff({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([]);
+    expect(diff(new Date(0), new Date(0))).toEqual([]);
+  });
+
+  it("describes added, removed and replaced keys", () => {
+    expect(
+      diff(
+        { keep: 1, change: 1, drop: 1, nested: { x: 1 } },
+        { keep: 1, change: 2, nested: { x: 2 }, added: true },
+      ),
+    ).toEqual([
+      { op: "replace", path: "/change", value: 2 },
+      { op: "remove", path: "/drop" },
+      { op: "replace", path: "/nested/x", value: 2 },
+      { op: "add", path: "/added", value: true },
+    ]);
+  });
+
+  it("describes array changes by index", () => {
+    expect(diff([1, 2, 3], [1, 5])).toEqual([
+      { op: "replace", path: "/1", value: 5 },
+      { op: "remove", path: "/2" },
+    ]);
+    expect(diff([1], [1, 2, 3])).toEqual([
+      { op: "add", path: "/1", value: 2 },
+      { op: "add", path: "/2", value: 3 },
+    ]);
+  });
+
+  it("escapes keys as JSON Pointer tokens", () => {
+    expect(diff({}, { "a/b~c": 1 })).toEqual([
+      { op: "add", path: "/a~1b~0c", value: 1 },
+    ]);
+  });
+
+  it("replaces other values as a whole when they differ", () => {
+    const next = { tags: new Set(["b"]) };
+
+    expect(diff({ tags: new Set(["a"]) }, next)).toEqual([
+      { op: "replace", path: "/tags", value: next.tags },
+    ]);
+    expect(diff({ a: [1] }, { a: { 0: 1 } })).toEqual([
+      { op: "replace", path: "/a", value: { 0: 1 } },
+    ]);
+    expect(diff(1, 2)).toEqual([{ op: "replace", path: "", value: 2 }]);
+  });
+
+  it("produces patches that turn the previous value into the next", () => {
+    const previous = {
+      todos: [{ text: "a", done: false }, { text: "b" }, { text: "c" }],
+      filter: "all",
+      "odd/key": 1,
+    };
+    const next = {
+      todos: [{ text: "a", done: true }, { text: "d" }],
+      user: { name: "Ada" },
+    };
+
+    expect(applyPatch(previous, diff(previous, next))).toEqual(next);
+  });
+});
+
+describe("applyPatch", () => {
+  const document = { a: { b: [1, 2] }, c: { d: 1 } };
+
+  it("applies add, remove and replace", () => {
+    expect(
+      applyPatch(document, [
+        { op: "add", path: "/a/b/1", value: 9 },
+        { op: "add", path: "/a/b/-", value: 3 },
+        { op: "remove", path: "/c/d" },
+        { op: "replace", path: "/a/b/0", value: 0 },
+        { op: "add", path: "/e", value: "new" },
+      ]),
+    ).toEqual({ a: { b: [0, 9, 2, 3] }, c: {}, e: "new" });
+  });
+
+  it("applies move, copy and test", () => {
+    expect(
+      applyPatch(document, [
+        { op: "test", path: "/c/d", value: 1 },
+        { op: "copy", from: "/a/b", path: "/copied" },
+        { op: "move", from: "/c/d", path: "/a/d" },
+      ]),
+    ).toEqual({ a: { b: [1, 2], d: 1 }, c: {}, copied: [1, 2] });
+  });
+
+  it("replaces the whole document at the root path", () => {
+    expect(applyPatch(document, [{ op: "replace", path: "", value: 1 }])).toBe(
+      1,
+    );
+  });
+
+  it("does not modify the document and keeps untouched references", () => {
+    const patched = applyPatch(document, [
+      { op: "replace", path: "/c/d", value: 2 },
+    ]);
+
+    expect(document.c.d).toBe(1);
+    expect(patched.c).not.toBe(document.c);
+    expect(patched.a).toBe(document.a);
+  });
+
+  it.each<[string, PatchOperation, string]>([
+    [
+      "a failed test",
+      { op: "test", path: "/c/d", value: 2 },
+      'Test failed at "/c/d".',
+    ],
+    [
+      "a missing value",
+      { op: "replace", path: "/missing", value: 1 },
+      'No value exists at "/missing".',
+    ],
+    [
+      "an out of bounds index",
+      { op: "remove", path: "/a/b/5" },
+      'Array index "5" is out of bounds at "/a/b/5".',
+    ],
+    [
+      "an invalid pointer",
+      { op: "remove", path: "a" },
+      'Invalid JSON Pointer "a".',
+    ],
+    [
+      "a move into a child",
+      { op: "move", from: "/a", path: "/a/x" },
+      'Cannot move "/a" into one of its children.',
+    ],
+  ])("throws on %s", (_name, operation, message) => {
+    expect(() => applyPatch(document, [operation])).toThrow(message);
+  });
+});
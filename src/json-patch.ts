@@ -0,0 +1,234 @@
+import { deepEqual } from "./deep-equal";
+
+export type PatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string }
+  | { op: "test"; path: string; value: unknown };
+
+type Container = Record<string, unknown> | unknown[];
+
+function isContainer(value: unknown): value is Container {
+  if (typeof value !== "object" || value === null) return false;
+
+  const proto = Object.getPrototypeOf(value);
+  return Array.isArray(value) || proto === Object.prototype || proto === null;
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON Pointer "${pointer}".`);
+  }
+
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function diffValues(
+  previous: unknown,
+  next: unknown,
+  path: string,
+  patches: PatchOperation[],
+): void {
+  if (Object.is(previous, next)) return;
+
+  // Plain objects and arrays are walked like in deepEqual; any other value is
+  // replaced as a whole when deepEqual reports a difference
+  if (
+    !isContainer(previous) ||
+    !isContainer(next) ||
+    Array.isArray(previous) !== Array.isArray(next) ||
+    Object.getPrototypeOf(previous) !== Object.getPrototypeOf(next)
+  ) {
+    if (!deepEqual(previous, next)) {
+      patches.push({ op: "replace", path, value: next });
+    }
+    return;
+  }
+
+  if (Array.isArray(previous) && Array.isArray(next)) {
+    const common = Math.min(previous.length, next.length);
+    for (let i = 0; i < common; i++) {
+      diffValues(previous[i], next[i], `${path}/${i}`, patches);
+    }
+    // Remove from the end so earlier indices stay valid
+    for (let i = previous.length - 1; i >= next.length; i--) {
+      patches.push({ op: "remove", path: `${path}/${i}` });
+    }
+    for (let i = previous.length; i < next.length; i++) {
+      patches.push({ op: "add", path: `${path}/${i}`, value: next[i] });
+    }
+    return;
+  }
+
+  const prevObj = previous as Record<string, unknown>;
+  const nextObj = next as Record<string, unknown>;
+
+  for (const key of Object.keys(prevObj)) {
+    const childPath = `${path}/${escapeToken(key)}`;
+    if (!Object.hasOwn(nextObj, key)) {
+      patches.push({ op: "remove", path: childPath });
+    } else {
+      diffValues(prevObj[key], nextObj[key], childPath, patches);
+    }
+  }
+  for (const key of Object.keys(nextObj)) {
+    if (!Object.hasOwn(prevObj, key)) {
+      patches.push({
+        op: "add",
+        path: `${path}/${escapeToken(key)}`,
+        value: nextObj[key],
+      });
+    }
+  }
+}
+
+// RFC 6902 operations that turn `previous` into `next`
+export function diff(previous: unknown, next: unknown): PatchOperation[] {
+  const patches: PatchOperation[] = [];
+  diffValues(previous, next, "", patches);
+  return patches;
+}
+
+function parseIndex(token: string, length: number, pointer: string): number {
+  const index = /^(0|[1-9]\d*)$/.test(token) ? Number(token) : Number.NaN;
+  if (!(index < length)) {
+    throw new Error(`Array index "${token}" is out of bounds at "${pointer}".`);
+  }
+  return index;
+}
+
+function getValue(document: unknown, pointer: string): unknown {
+  let value = document;
+
+  for (const token of parsePointer(pointer)) {
+    if (Array.isArray(value)) {
+      value = value[parseIndex(token, value.length, pointer)];
+    } else if (isContainer(value) && Object.hasOwn(value, token)) {
+      value = (value as Record<string, unknown>)[token];
+    } else {
+      throw new Error(`No value exists at "${pointer}".`);
+    }
+  }
+
+  return value;
+}
+
+// Copies every container along the pointer and calls `change` on the copy of
+// the last one, leaving the original document untouched
+function updateIn(
+  document: unknown,
+  pointer: string,
+  change: (container: Container, token: string) => void,
+): unknown {
+  const tokens = parsePointer(pointer);
+
+  function update(value: unknown, depth: number): unknown {
+    if (!isContainer(value)) {
+      throw new Error(`No container exists at "${pointer}".`);
+    }
+
+    const token = tokens[depth] as string;
+    const copy: Container = Array.isArray(value)
+      ? [...value]
+      : Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+
+    if (depth === tokens.length - 1) {
+      change(copy, token);
+    } else if (Array.isArray(copy)) {
+      const index = parseIndex(token, copy.length, pointer);
+      copy[index] = update(copy[index], depth + 1);
+    } else if (Object.hasOwn(copy, token)) {
+      copy[token] = update(copy[token], depth + 1);
+    } else {
+      throw new Error(`No value exists at "${pointer}".`);
+    }
+
+    return copy;
+  }
+
+  return update(document, 0);
+}
+
+function add(document: unknown, pointer: string, value: unknown): unknown {
+  if (pointer === "") return value;
+
+  return updateIn(document, pointer, (container, token) => {
+    if (!Array.isArray(container)) {
+      container[token] = value;
+    } else if (token === "-") {
+      container.push(value);
+    } else {
+      container.splice(
+        parseIndex(token, container.length + 1, pointer),
+        0,
+        value,
+      );
+    }
+  });
+}
+
+function remove(document: unknown, pointer: string): unknown {
+  if (pointer === "") {
+    throw new Error("Cannot remove the root of the document.");
+  }
+
+  return updateIn(document, pointer, (container, token) => {
+    if (Array.isArray(container)) {
+      container.splice(parseIndex(token, container.length, pointer), 1);
+    } else if (Object.hasOwn(container, token)) {
+      delete container[token];
+    } else {
+      throw new Error(`No value exists at "${pointer}".`);
+    }
+  });
+}
+
+function applyOperation(document: unknown, operation: PatchOperation): unknown {
+  switch (operation.op) {
+    case "add":
+      return add(document, operation.path, operation.value);
+    case "remove":
+      return remove(document, operation.path);
+    case "replace":
+      getValue(document, operation.path);
+      if (operation.path === "") return operation.value;
+      return updateIn(document, operation.path, (container, token) => {
+        if (Array.isArray(container)) {
+          container[Number(token)] = operation.value;
+        } else {
+          container[token] = operation.value;
+        }
+      });
+    case "move": {
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new Error(
+          `Cannot move "${operation.from}" into one of its children.`,
+        );
+      }
+      const value = getValue(document, operation.from);
+      return add(remove(document, operation.from), operation.path, value);
+    }
+    case "copy":
+      return add(document, operation.path, getValue(document, operation.from));
+    case "test":
+      if (!deepEqual(getValue(document, operation.path), operation.value)) {
+        throw new Error(`Test failed at "${operation.path}".`);
+      }
+      return document;
+  }
+}
+
+// Returns a new document; unchanged parts keep their references
+export function applyPatch<T>(document: T, patches: PatchOperation[]): T {
+  return patches.reduce<unknown>(applyOperation, document) as T;
+}
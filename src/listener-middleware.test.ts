@@ -0,0 +1,455 @@
+import { createAction } from "./create-action";
+import type { Action } from "./create-store";
+import { createStore } from "./create-store";
+import {
+  createListenerMiddleware,
+  TaskAbortError,
+} from "./listener-middleware";
+
+describe("createListenerMiddleware", () => {
+  type State = { count: number };
+
+  const reducer = (state: State, action: Action): State => {
+    switch (action.type) {
+      case "inc":
+        return { count: state.count + 1 };
+      case "add":
+        return { count: state.count + (action.payload as number) };
+      default:
+        return state;
+    }
+  };
+
+  const flush = () => new Promise((r) => setTimeout(r, 0));
+
+  function setup() {
+    const listener = createListenerMiddleware<State>();
+    const store = createStore(reducer, { count: 0 }, [listener.middleware]);
+
+    return { listener, store };
+  }
+
+  describe("matching", () => {
+    it("runs effects for a given action type", () => {
+      const { listener, store } = setup();
+      const effect = jest.fn();
+
+      listener.startListening({ type: "inc", effect });
+      store.dispatch({ type: "inc" });
+      store.dispatch({ type: "add", payload: 1 });
+
+      expect(effect).toHaveBeenCalledTimes(1);
+      expect(effect).toHaveBeenCalledWith({ type: "inc" }, expect.anything());
+    });
+
+    it("runs effects for an action creator", () => {
+      const { listener, store } = setup();
+      const add = createAction<number>("add");
+      const payloads: number[] = [];
+
+      listener.startListening({
+        actionCreator: add,
+        effect: (action) => {
+          payloads.push(action.payload);
+        },
+      });
+      store.dispatch(add(3));
+
+      expect(payloads).toEqual([3]);
+    });
+
+    it("runs effects for a matcher", () => {
+      const { listener, store } = setup();
+      const effect = jest.fn();
+
+      listener.startListening({
+        matcher: (action) => action.type.startsWith("a"),
+        effect,
+      });
+      store.dispatch({ type: "inc" });
+      store.dispatch({ type: "add", payload: 1 });
+
+      expect(effect).toHaveBeenCalledTimes(1);
+    });
+
+    it("runs effects for a state predicate", () => {
+      const { listener, store } = setup();
+      const effect = jest.fn();
+
+      listener.startListening({
+        predicate: (_action, currentState, originalState) =>
+          currentState.count > 1 && originalState.count <= 1,
+        effect,
+      });
+      store.dispatch({ type: "inc" });
+      store.dispatch({ type: "inc" });
+      store.dispatch({ type: "inc" });
+
+      expect(effect).toHaveBeenCalledTimes(1);
+    });
+
+    it("requires a way to match actions", () => {
+      const { listener } = setup();
+
+      expect(() => listener.startListening({ effect: () => {} })).toThrow(
+        "startListening requires a type, actionCreator, matcher or predicate.",
+      );
+    });
+  });
+
+  describe("effect api", () => {
+    it("exposes getState, getOriginalState and dispatch", () => {
+      const { listener, store } = setup();
+      const states: number[] = [];
+
+      listener.startListening({
+        type: "inc",
+        effect: (_action, api) => {
+          states.push(api.getOriginalState().count, api.getState().count);
+          if (api.getState().count === 1) {
+            api.dispatch({ type: "add", payload: 10 });
+          }
+        },
+      });
+      store.dispatch({ type: "inc" });
+
+      expect(states).toEqual([0, 1]);
+      expect(store.getState()).toEqual({ count: 11 });
+    });
+
+    it("passes the extra argument", () => {
+      const listener = createListenerMiddleware<State, Action, string>({
+        extra: "api",
+      });
+      const store = createStore(reducer, { count: 0 }, [listener.middleware]);
+      const extras: string[] = [];
+
+      listener.startListening({
+        type: "inc",
+        effect: (_action, { extra }) => {
+          extras.push(extra);
+        },
+      });
+      store.dispatch({ type: "inc" });
+
+      expect(extras).toEqual(["api"]);
+    });
+
+    it("falls back to the store's extra argument", () => {
+      const listener = createListenerMiddleware<State, Action, string>();
+      const store = createStore(
+        reducer,
+        { count: 0 },
+        {
+          middlewares: [listener.middleware],
+          extraArgument: "store",
+        },
+      );
+      const extras: string[] = [];
+
+      listener.startListening({
+        type: "inc",
+        effect: (_action, { extra }) => {
+          extras.push(extra);
+        },
+      });
+      store.dispatch({ type: "inc" });
+
+      expect(extras).toEqual(["store"]);
+    });
+
+    it("take waits for the next matching action", async () => {
+      const { listener, store } = setup();
+      const taken: unknown[] = [];
+
+      listener.startListening({
+        type: "inc",
+        effect: async (_action, { take }) => {
+          const result = await take((action) => action.type === "add");
+          taken.push(result);
+        },
+      });
+      store.dispatch({ type: "inc" });
+      store.dispatch({ type: "add", payload: 2 });
+      await flush();
+
+      expect(taken).toEqual([
+        [{ type: "add", payload: 2 }, { count: 3 }, { count: 1 }],
+      ]);
+    });
+
+    it("take resolves to null after the timeout", async () => {
+      const { listener, store } = setup();
+      const taken: unknown[] = [];
+
+      listener.startListening({
+        type: "inc",
+        effect: async (_action, { take }) => {
+          taken.push(await take((action) => action.type === "add", 5));
+        },
+      });
+      store.dispatch({ type: "inc" });
+      await new Promise((r) => setTimeout(r, 20));
+
+      expect(taken).toEqual([null]);
+    });
+
+    it("condition resolves once the predicate passes", async () => {
+      const { listener, store } = setup();
+      const results: boolean[] = [];
+
+      listener.startListening({
+        type: "start",
+        effect: async (_action, { condition }) => {
+          results.push(await condition((_a, state) => state.count >= 2));
+        },
+      });
+      store.dispatch({ type: "start" });
+      store.dispatch({ type: "inc" });
+      await flush();
+      expect(results).toEqual([]);
+
+      store.dispatch({ type: "inc" });
+      await flush();
+      expect(results).toEqual([true]);
+    });
+
+    it("unsubscribe removes the listener from inside the effect", () => {
+      const { listener, store } = setup();
+      const effect = jest.fn((_action: Action, api: { unsubscribe(): void }) =>
+        api.unsubscribe(),
+      );
+
+      listener.startListening({ type: "inc", effect });
+      store.dispatch({ type: "inc" });
+      store.dispatch({ type: "inc" });
+
+      expect(effect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("cancellation", () => {
+    it("cancelActiveListeners cancels previous runs", async () => {
+      const { listener, store } = setup();
+      const completed: number[] = [];
+
+      listener.startListening({
+        type: "add",
+        effect: async (action, { cancelActiveListeners, delay }) => {
+          cancelActiveListeners();
+          await delay(5);
+          completed.push(action.payload as number);
+        },
+      });
+      store.dispatch({ type: "add", payload: 1 });
+      store.dispatch({ type: "add", payload: 2 });
+      await new Promise((r) => setTimeout(r, 20));
+
+      expect(completed).toEqual([2]);
+    });
+
+    it("delay rejects with TaskAbortError once cancelled", async () => {
+      const { listener, store } = setup();
+      const errors: unknown[] = [];
+
+      listener.startListening({
+        type: "add",
+        effect: async (_action, { cancelActiveListeners, delay }) => {
+          cancelActiveListeners();
+          try {
+            await delay(5);
+          } catch (error) {
+            errors.push(error);
+          }
+        },
+      });
+      store.dispatch({ type: "add", payload: 1 });
+      store.dispatch({ type: "add", payload: 2 });
+      await new Promise((r) => setTimeout(r, 20));
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toBeInstanceOf(TaskAbortError);
+    });
+
+    it("stopListening with cancelActive aborts running effects", async () => {
+      const { listener, store } = setup();
+      const signals: AbortSignal[] = [];
+      const effect = async (
+        _action: Action,
+        { signal, delay }: { signal: AbortSignal; delay(ms: number): unknown },
+      ) => {
+        signals.push(signal);
+        await delay(50);
+      };
+
+      listener.startListening({ type: "inc", effect });
+      store.dispatch({ type: "inc" });
+
+      expect(
+        listener.stopListening({ type: "inc", effect, cancelActive: true }),
+      ).toBe(true);
+      expect(signals[0]?.aborted).toBe(true);
+    });
+  });
+
+  describe("fork", () => {
+    it("runs child tasks and reports their result", async () => {
+      const { listener, store } = setup();
+      const results: unknown[] = [];
+
+      listener.startListening({
+        type: "inc",
+        effect: async (_action, { fork }) => {
+          const task = fork(async ({ delay }) => {
+            await delay(1);
+            return 42;
+          });
+          results.push(await task.result);
+        },
+      });
+      store.dispatch({ type: "inc" });
+      await new Promise((r) => setTimeout(r, 20));
+
+      expect(results).toEqual([{ status: "ok", value: 42 }]);
+    });
+
+    it("cancels child tasks", async () => {
+      const { listener, store } = setup();
+      const results: { status: string }[] = [];
+
+      listener.startListening({
+        type: "inc",
+        effect: async (_action, { fork }) => {
+          const task = fork(({ delay }) => delay(50));
+          task.cancel();
+          results.push(await task.result);
+        },
+      });
+      store.dispatch({ type: "inc" });
+      await flush();
+
+      expect(results.map((r) => r.status)).toEqual(["cancelled"]);
+    });
+
+    it("reports rejected child tasks", async () => {
+      const { listener, store } = setup();
+      const results: unknown[] = [];
+      const error = new Error("boom");
+
+      listener.startListening({
+        type: "inc",
+        effect: async (_action, { fork }) => {
+          results.push(
+            await fork(() => {
+              throw error;
+            }).result,
+          );
+        },
+      });
+      store.dispatch({ type: "inc" });
+      await flush();
+
+      expect(results).toEqual([{ status: "rejected", error }]);
+    });
+  });
+
+  describe("listener management", () => {
+    it("startListening returns an unsubscribe function", () => {
+      const { listener, store } = setup();
+      const effect = jest.fn();
+
+      const unsubscribe = listener.startListening({ type: "inc", effect });
+      unsubscribe();
+      store.dispatch({ type: "inc" });
+
+      expect(effect).not.toHaveBeenCalled();
+    });
+
+    it("does not register the same listener twice", () => {
+      const { listener, store } = setup();
+      const effect = jest.fn();
+
+      listener.startListening({ type: "inc", effect });
+      listener.startListening({ type: "inc", effect });
+      store.dispatch({ type: "inc" });
+
+      expect(effect).toHaveBeenCalledTimes(1);
+    });
+
+    it("clearListeners removes every listener", () => {
+      const { listener, store } = setup();
+      const effect = jest.fn();
+
+      listener.startListening({ type: "inc", effect });
+      listener.startListening({ type: "add", effect });
+      listener.clearListeners();
+      store.dispatch({ type: "inc" });
+      store.dispatch({ type: "add", payload: 1 });
+
+      expect(effect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("errors", () => {
+    it("routes effect errors to onError", async () => {
+      const onError = jest.fn();
+      const listener = createListenerMiddleware<State>({ onError });
+      const store = createStore(reducer, { count: 0 }, [listener.middleware]);
+      const error = new Error("effect failed");
+
+      listener.startListening({
+        type: "inc",
+        effect: () => {
+          throw error;
+        },
+      });
+      store.dispatch({ type: "inc" });
+      await flush();
+
+      expect(onError).toHaveBeenCalledWith(error, { raisedBy: "effect" });
+      expect(store.getState()).toEqual({ count: 1 });
+    });
+
+    it("routes predicate errors to onError", () => {
+      const onError = jest.fn();
+      const listener = createListenerMiddleware<State>({ onError });
+      const store = createStore(reducer, { count: 0 }, [listener.middleware]);
+      const error = new Error("predicate failed");
+
+      listener.startListening({
+        predicate: () => {
+          throw error;
+        },
+        effect: () => {},
+      });
+      store.dispatch({ type: "inc" });
+
+      expect(onError).toHaveBeenCalledWith(error, { raisedBy: "predicate" });
+    });
+
+    it("rejects take when its predicate throws", async () => {
+      const onError = jest.fn();
+      const listener = createListenerMiddleware<State>({ onError });
+      const store = createStore(reducer, { count: 0 }, [listener.middleware]);
+      const error = new Error("take predicate failed");
+      const later = jest.fn();
+
+      listener.startListening({
+        type: "add",
+        effect: async (_action, api) => {
+          await api.take(() => {
+            throw error;
+          });
+        },
+      });
+      listener.startListening({ type: "inc", effect: later });
+      store.dispatch({ type: "add", payload: 1 });
+
+      expect(() => store.dispatch({ type: "inc" })).not.toThrow();
+      await flush();
+
+      expect(later).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith(error, { raisedBy: "effect" });
+    });
+  });
+});
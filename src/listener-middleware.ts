@@ -0,0 +1,368 @@
+import type { Middleware, MiddlewareFunction } from "./apply-middleware";
+import type { Action } from "./create-store";
+
+export type ListenerPredicate<S, A extends Action = Action> = (
+  action: A,
+  currentState: S,
+  originalState: S,
+) => boolean;
+
+export type TaskResult<T> =
+  | { status: "ok"; value: T }
+  | { status: "cancelled"; error: TaskAbortError }
+  | { status: "rejected"; error: unknown };
+
+export type ForkedTask<T> = {
+  result: Promise<TaskResult<T>>;
+  cancel: () => void;
+};
+
+export type ForkApi = {
+  signal: AbortSignal;
+  delay: (ms: number) => Promise<void>;
+};
+
+export type ListenerEffectApi<
+  S,
+  A extends Action = Action,
+  E = undefined,
+> = Middleware<S, A, E> & {
+  extra: E;
+  signal: AbortSignal;
+  getOriginalState: () => S;
+  take: (
+    predicate: ListenerPredicate<S, A>,
+    timeout?: number,
+  ) => Promise<[A, S, S] | null>;
+  condition: (
+    predicate: ListenerPredicate<S, A>,
+    timeout?: number,
+  ) => Promise<boolean>;
+  delay: (ms: number) => Promise<void>;
+  fork: <T>(executor: (api: ForkApi) => T | Promise<T>) => ForkedTask<T>;
+  cancelActiveListeners: () => void;
+  unsubscribe: () => void;
+};
+
+export type ListenerEffect<
+  S,
+  A extends Action = Action,
+  E = undefined,
+  LA extends Action = A,
+> = (action: LA, api: ListenerEffectApi<S, A, E>) => void | Promise<void>;
+
+export type ListenerOptions<
+  S,
+  A extends Action = Action,
+  E = undefined,
+  LA extends Action = A,
+> = {
+  type?: string;
+  actionCreator?: { match: (action: Action) => action is LA };
+  matcher?: (action: A) => boolean;
+  predicate?: ListenerPredicate<S, A>;
+  effect: ListenerEffect<S, A, E, LA>;
+};
+
+export type ListenerErrorHandler = (
+  error: unknown,
+  info: { raisedBy: "effect" | "predicate" },
+) => void;
+
+export type ListenerMiddlewareOptions<E> = {
+  extra?: E;
+  onError?: ListenerErrorHandler;
+};
+
+export type ListenerMiddleware<S, A extends Action = Action, E = undefined> = {
+  middleware: MiddlewareFunction<S, A, E>;
+  startListening: <LA extends Action = A>(
+    options: ListenerOptions<S, A, E, LA>,
+  ) => () => void;
+  stopListening: <LA extends Action = A>(
+    options: ListenerOptions<S, A, E, LA> & { cancelActive?: boolean },
+  ) => boolean;
+  clearListeners: () => void;
+};
+
+type ListenerEntry<S, A extends Action, E> = {
+  predicate: ListenerPredicate<S, A>;
+  effect: ListenerEffect<S, A, E, Action>;
+  options: ListenerOptions<S, A, E, Action>;
+  pending: Set<AbortController>;
+};
+
+type Waiter<S, A extends Action> = {
+  predicate: ListenerPredicate<S, A>;
+  resolve: (result: [A, S, S]) => void;
+  reject: (error: unknown) => void;
+};
+
+export class TaskAbortError extends Error {
+  constructor(reason = "Listener task was cancelled.") {
+    super(reason);
+    this.name = "TaskAbortError";
+  }
+}
+
+function abortable<T>(signal: AbortSignal, promise: Promise<T>): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(new TaskAbortError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new TaskAbortError());
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+function createDelay(signal: AbortSignal): (ms: number) => Promise<void> {
+  return (ms) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    return abortable(
+      signal,
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, ms);
+      }),
+    ).finally(() => clearTimeout(timer));
+  };
+}
+
+function fork<T>(
+  parent: AbortSignal,
+  executor: (api: ForkApi) => T | Promise<T>,
+): ForkedTask<T> {
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+
+  parent.addEventListener("abort", cancel, { once: true });
+
+  const result = abortable(
+    controller.signal,
+    // Start on the next tick so the parent can keep the returned task handle
+    Promise.resolve().then(() =>
+      executor({
+        signal: controller.signal,
+        delay: createDelay(controller.signal),
+      }),
+    ),
+  )
+    .then(
+      (value): TaskResult<T> => ({ status: "ok", value }),
+      (error: unknown): TaskResult<T> =>
+        error instanceof TaskAbortError
+          ? { status: "cancelled", error }
+          : { status: "rejected", error },
+    )
+    .finally(() => parent.removeEventListener("abort", cancel));
+
+  return { result, cancel };
+}
+
+function toPredicate<S, A extends Action, E>(
+  options: ListenerOptions<S, A, E, Action>,
+): ListenerPredicate<S, A> {
+  const { type, actionCreator, matcher, predicate } = options;
+
+  if (type !== undefined) return (action) => action.type === type;
+  if (actionCreator) return (action) => actionCreator.match(action);
+  if (matcher) return (action) => matcher(action);
+  if (predicate) return predicate;
+
+  throw new Error(
+    "startListening requires a type, actionCreator, matcher or predicate.",
+  );
+}
+
+function isSameListener<S, A extends Action, E>(
+  a: ListenerOptions<S, A, E, Action>,
+  b: ListenerOptions<S, A, E, Action>,
+): boolean {
+  return (
+    a.effect === b.effect &&
+    a.type === b.type &&
+    a.actionCreator === b.actionCreator &&
+    a.matcher === b.matcher &&
+    a.predicate === b.predicate
+  );
+}
+
+export function createListenerMiddleware<
+  S,
+  A extends Action = Action,
+  E = undefined,
+>(options: ListenerMiddlewareOptions<E> = {}): ListenerMiddleware<S, A, E> {
+  const { extra, onError = console.error } = options;
+  const entries: Set<ListenerEntry<S, A, E>> = new Set();
+  const waiters: Set<Waiter<S, A>> = new Set();
+
+  function startListening<LA extends Action = A>(
+    listenerOptions: ListenerOptions<S, A, E, LA>,
+  ): () => void {
+    const opts = listenerOptions as unknown as ListenerOptions<S, A, E, Action>;
+
+    for (const entry of entries) {
+      if (isSameListener(entry.options, opts)) {
+        return () => removeEntry(entry, false);
+      }
+    }
+
+    const entry: ListenerEntry<S, A, E> = {
+      predicate: toPredicate(opts),
+      effect: opts.effect,
+      options: opts,
+      pending: new Set(),
+    };
+    entries.add(entry);
+
+    return () => removeEntry(entry, false);
+  }
+
+  function removeEntry(entry: ListenerEntry<S, A, E>, cancelActive: boolean) {
+    entries.delete(entry);
+
+    if (cancelActive) {
+      entry.pending.forEach((controller) => {
+        controller.abort();
+      });
+    }
+  }
+
+  function stopListening<LA extends Action = A>(
+    listenerOptions: ListenerOptions<S, A, E, LA> & { cancelActive?: boolean },
+  ): boolean {
+    const opts = listenerOptions as unknown as ListenerOptions<S, A, E, Action>;
+
+    for (const entry of entries) {
+      if (isSameListener(entry.options, opts)) {
+        removeEntry(entry, listenerOptions.cancelActive ?? false);
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  function clearListeners(): void {
+    entries.forEach((entry) => {
+      removeEntry(entry, true);
+    });
+  }
+
+  function take(
+    signal: AbortSignal,
+    predicate: ListenerPredicate<S, A>,
+    timeout?: number,
+  ): Promise<[A, S, S] | null> {
+    let waiter: Waiter<S, A> | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const taken = new Promise<[A, S, S] | null>((resolve, reject) => {
+      waiter = { predicate, resolve, reject };
+      waiters.add(waiter);
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => resolve(null), timeout);
+      }
+    });
+
+    return abortable(signal, taken).finally(() => {
+      if (waiter) waiters.delete(waiter);
+      clearTimeout(timer);
+    });
+  }
+
+  function runEffect(
+    entry: ListenerEntry<S, A, E>,
+    action: A,
+    api: Middleware<S, A, E>,
+    originalState: S,
+  ): void {
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    entry.pending.add(controller);
+
+    // Without an `extra` option, effects get the store's extra argument
+    const effectApi: ListenerEffectApi<S, A, E> = {
+      ...api,
+      extra: extra !== undefined ? extra : api.extraArgument,
+      signal,
+      getOriginalState: () => originalState,
+      take: (predicate, timeout) => take(signal, predicate, timeout),
+      condition: (predicate, timeout) =>
+        take(signal, predicate, timeout).then(Boolean),
+      delay: createDelay(signal),
+      fork: (executor) => fork(signal, executor),
+      cancelActiveListeners: () => {
+        entry.pending.forEach((other) => {
+          if (other !== controller) other.abort();
+        });
+      },
+      unsubscribe: () => removeEntry(entry, false),
+    };
+
+    // The executor runs synchronously so effects see actions dispatched right after
+    new Promise<void>((resolve) => resolve(entry.effect(action, effectApi)))
+      .catch((error: unknown) => {
+        if (!(error instanceof TaskAbortError)) {
+          onError(error, { raisedBy: "effect" });
+        }
+      })
+      .finally(() => {
+        controller.abort();
+        entry.pending.delete(controller);
+      });
+  }
+
+  const middleware: MiddlewareFunction<S, A, E> =
+    (api) => (next) => (action) => {
+      if (typeof action === "function") {
+        return next(action);
+      }
+
+      const originalState = api.getState();
+      const result = next(action);
+      const currentState = api.getState();
+
+      // A throwing predicate rejects the `take` or `condition` that passed it
+      for (const waiter of waiters) {
+        let matches = false;
+
+        try {
+          matches = waiter.predicate(action, currentState, originalState);
+        } catch (error) {
+          waiters.delete(waiter);
+          waiter.reject(error);
+        }
+
+        if (matches) {
+          waiters.delete(waiter);
+          waiter.resolve([action, currentState, originalState]);
+        }
+      }
+
+      for (const entry of entries) {
+        let matches = false;
+
+        try {
+          matches = entry.predicate(action, currentState, originalState);
+        } catch (error) {
+          onError(error, { raisedBy: "predicate" });
+        }
+
+        if (matches) {
+          runEffect(entry, action, api, originalState);
+        }
+      }
+
+      return result;
+    };
+
+  return { middleware, startListening, stopListening, clearListeners };
+}
@@ -0,0 +1,309 @@
+import type { Action } from "./create-store";
+import { createStore } from "./create-store";
+import type { PersistConfig, PersistStorage } from "./persist";
+import {
+  createMemoryStorage,
+  createWebStorage,
+  migrate,
+  PersistActionTypes,
+  persistReducer,
+  persistStore,
+} from "./persist";
+
+describe("persist", () => {
+  type State = { count: number; draft: string };
+
+  const reducer = (state: State, action: Action): State => {
+    switch (action.type) {
+      case "inc":
+        return { ...state, count: state.count + 1 };
+      case "type":
+        return { ...state, draft: action.payload as string };
+      default:
+        return state;
+    }
+  };
+
+  const initialState: State = { count: 0, draft: "" };
+
+  function setup(
+    config: Partial<PersistConfig<State>> = {},
+    items: Record<string, string> = {},
+  ) {
+    const storage = config.storage ?? createMemoryStorage(items);
+    const persistConfig: PersistConfig<State> = {
+      key: "root",
+      ...config,
+      storage,
+    };
+    const store = createStore(
+      persistReducer(persistConfig, reducer),
+      initialState,
+    );
+    const persistor = persistStore(store, persistConfig);
+
+    return { storage, store, persistor };
+  }
+
+  const saved = (state: unknown, version = 0) =>
+    JSON.stringify({ version, state });
+
+  describe("rehydration", () => {
+    it("restores the persisted state asynchronously", async () => {
+      const { store, persistor } = setup(
+        {},
+        { "persist:root": saved({ count: 5 }) },
+      );
+
+      expect(persistor.isRehydrated()).toBe(false);
+      expect(store.getState()).toEqual(initialState);
+
+      await persistor.rehydrated;
+
+      expect(persistor.isRehydrated()).toBe(true);
+      expect(store.getState()).toEqual({ count: 5, draft: "" });
+    });
+
+    it("keeps the initial state when nothing is stored", async () => {
+      const { store, persistor } = setup();
+
+      await persistor.rehydrated;
+
+      expect(store.getState()).toBe(initialState);
+    });
+
+    it("supports async storage", async () => {
+      const storage: PersistStorage = {
+        getItem: async () => saved({ count: 2 }),
+        setItem: async () => {},
+        removeItem: async () => {},
+      };
+      const { store, persistor } = setup({ storage });
+
+      await persistor.rehydrated;
+
+      expect(store.getState().count).toBe(2);
+    });
+
+    it("notifies subscribers once rehydrated", async () => {
+      const { persistor } = setup();
+      const listener = jest.fn();
+
+      persistor.subscribe(listener);
+      await persistor.rehydrated;
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports storage errors and still rehydrates", async () => {
+      const onError = jest.fn();
+      const error = new Error("unavailable");
+      const storage: PersistStorage = {
+        getItem: async () => {
+          throw error;
+        },
+        setItem: () => {},
+        removeItem: () => {},
+      };
+      const { store, persistor } = setup({ storage, onError });
+
+      await persistor.rehydrated;
+
+      expect(onError).toHaveBeenCalledWith(error);
+      expect(persistor.isRehydrated()).toBe(true);
+      expect(store.getState()).toBe(initialState);
+    });
+
+    it("ignores rehydration for other keys", () => {
+      const persisted = persistReducer({ key: "root" }, reducer);
+
+      expect(
+        persisted(initialState, {
+          type: PersistActionTypes.REHYDRATE,
+          payload: { key: "other", state: { count: 9 } },
+        } as Action),
+      ).toBe(initialState);
+    });
+  });
+
+  describe("writes", () => {
+    it("does not write before rehydration", async () => {
+      const { storage, store, persistor } = setup(
+        {},
+        { "persist:root": saved({ count: 5 }) },
+      );
+
+      store.dispatch({ type: "inc" });
+      expect(await storage.getItem("persist:root")).toBe(saved({ count: 5 }));
+
+      await persistor.rehydrated;
+      store.dispatch({ type: "inc" });
+      await persistor.flush();
+
+      expect(await storage.getItem("persist:root")).toBe(
+        saved({ count: 6, draft: "" }),
+      );
+    });
+
+    it("saves whitelisted slices only", async () => {
+      const { storage, store, persistor } = setup({ whitelist: ["count"] });
+
+      await persistor.rehydrated;
+      store.dispatch({ type: "inc" });
+      await persistor.flush();
+
+      expect(await storage.getItem("persist:root")).toBe(saved({ count: 1 }));
+    });
+
+    it("skips blacklisted slices", async () => {
+      const { storage, store, persistor } = setup({ blacklist: ["draft"] });
+
+      await persistor.rehydrated;
+      store.dispatch({ type: "type", payload: "hello" });
+      store.dispatch({ type: "inc" });
+      await persistor.flush();
+
+      expect(await storage.getItem("persist:root")).toBe(saved({ count: 1 }));
+    });
+
+    it("throttles writes", async () => {
+      const setItem = jest.fn();
+      const storage: PersistStorage = {
+        getItem: () => null,
+        setItem,
+        removeItem: () => {},
+      };
+      const { store, persistor } = setup({ storage, throttle: 1000 });
+      await persistor.rehydrated;
+
+      jest.useFakeTimers();
+      try {
+        store.dispatch({ type: "inc" });
+        store.dispatch({ type: "inc" });
+        store.dispatch({ type: "inc" });
+        await Promise.resolve();
+        expect(setItem).toHaveBeenCalledTimes(1);
+
+        jest.advanceTimersByTime(1000);
+        await Promise.resolve();
+        await Promise.resolve();
+
+        expect(setItem).toHaveBeenCalledTimes(2);
+        expect(setItem).toHaveBeenLastCalledWith(
+          "persist:root",
+          saved({ count: 3, draft: "" }),
+        );
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("throttles writes to one every 100ms by default", async () => {
+      const setItem = jest.fn();
+      const storage: PersistStorage = {
+        getItem: () => null,
+        setItem,
+        removeItem: () => {},
+      };
+      const { store, persistor } = setup({ storage });
+      await persistor.rehydrated;
+
+      jest.useFakeTimers();
+      try {
+        store.dispatch({ type: "inc" });
+        store.dispatch({ type: "inc" });
+        await Promise.resolve();
+        expect(setItem).toHaveBeenCalledTimes(1);
+
+        jest.advanceTimersByTime(100);
+        await Promise.resolve();
+        await Promise.resolve();
+
+        expect(setItem).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("purge removes the stored state", async () => {
+      const { storage, store, persistor } = setup();
+
+      await persistor.rehydrated;
+      store.dispatch({ type: "inc" });
+      await persistor.purge();
+
+      expect(await storage.getItem("persist:root")).toBeNull();
+    });
+
+    it("stop ends persistence", async () => {
+      const { storage, store, persistor } = setup();
+
+      await persistor.rehydrated;
+      persistor.stop();
+      store.dispatch({ type: "inc" });
+
+      expect(await storage.getItem("persist:root")).toBeNull();
+    });
+  });
+
+  describe("versioning", () => {
+    it("runs migrations above the persisted version in order", async () => {
+      const { store, persistor } = setup(
+        {
+          version: 3,
+          migrations: {
+            1: () => {
+              throw new Error("already applied");
+            },
+            3: (state) => ({ ...(state as object), draft: "v3" }),
+            2: (state) => ({ count: (state as { total: number }).total }),
+          },
+        },
+        { "persist:root": saved({ total: 7 }, 1) },
+      );
+
+      await persistor.rehydrated;
+
+      expect(store.getState()).toEqual({ count: 7, draft: "v3" });
+    });
+
+    it("writes the current version", async () => {
+      const { storage, store, persistor } = setup({ version: 4 });
+
+      await persistor.rehydrated;
+      store.dispatch({ type: "inc" });
+      await persistor.flush();
+
+      expect(await storage.getItem("persist:root")).toBe(
+        saved({ count: 1, draft: "" }, 4),
+      );
+    });
+
+    it("rejects state from a newer version", () => {
+      expect(() => migrate({}, 3, 2)).toThrow(
+        "Persisted state version 3 is newer than 2.",
+      );
+    });
+  });
+
+  describe("storage adapters", () => {
+    it("wraps web storage", () => {
+      const items = new Map<string, string>();
+      const storage = createWebStorage({
+        getItem: (key) => items.get(key) ?? null,
+        setItem: (key, value) => {
+          items.set(key, value);
+        },
+        removeItem: (key) => {
+          items.delete(key);
+        },
+      });
+
+      storage.setItem("a", "1");
+      expect(storage.getItem("a")).toBe("1");
+
+      storage.removeItem("a");
+      expect(storage.getItem("a")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import type { Action, Reducer, Store } from "./create-store";
+
+export type PersistStorage = {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+};
+
+export type Migrations = Record<number, (state: unknown) => unknown>;
+
+export type PersistConfig<S> = {
+  key: string;
+  storage: PersistStorage;
+  version?: number;
+  migrations?: Migrations;
+  whitelist?: (keyof S)[];
+  blacklist?: (keyof S)[];
+  throttle?: number;
+  onError?: (error: unknown) => void;
+};
+
+export type Persistor = {
+  rehydrated: Promise<void>;
+  isRehydrated: () => boolean;
+  subscribe: (listener: () => void) => () => void;
+  flush: () => Promise<void>;
+  purge: () => Promise<void>;
+  stop: () => void;
+};
+
+export type RehydrateAction = {
+  type: typeof PersistActionTypes.REHYDRATE;
+  payload: { key: string; state: unknown };
+};
+
+type PersistedState = {
+  version: number;
+  state: unknown;
+};
+
+export const PersistActionTypes = {
+  REHYDRATE: "@@refluxio/persist/REHYDRATE",
+} as const;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+export function createWebStorage(
+  storage: Pick<Storage, "getItem" | "setItem" | "removeItem">,
+): PersistStorage {
+  return {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: (key) => storage.removeItem(key),
+  };
+}
+
+export function createMemoryStorage(
+  initialItems: Record<string, string> = {},
+): PersistStorage {
+  const items = new Map(Object.entries(initialItems));
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+export function migrate(
+  state: unknown,
+  fromVersion: number,
+  toVersion: number,
+  migrations: Migrations = {},
+): unknown {
+  if (fromVersion > toVersion) {
+    throw new Error(
+      `Persisted state version ${fromVersion} is newer than ${toVersion}.`,
+    );
+  }
+
+  return Object.keys(migrations)
+    .map(Number)
+    .filter((version) => version > fromVersion && version <= toVersion)
+    .sort((a, b) => a - b)
+    .reduce(
+      (migrated, version) =>
+        (migrations[version] as Migrations[number])(migrated),
+      state,
+    );
+}
+
+export function persistReducer<S, A extends Action = Action>(
+  config: Pick<PersistConfig<S>, "key">,
+  reducer: Reducer<S, A>,
+): Reducer<S, A> {
+  return function persisted(state: S, action: A): S {
+    if (action.type !== PersistActionTypes.REHYDRATE) {
+      return reducer(state, action);
+    }
+
+    const { payload } = action as unknown as RehydrateAction;
+    if (payload.key !== config.key || payload.state === undefined) {
+      return state;
+    }
+
+    return isPlainObject(state) && isPlainObject(payload.state)
+      ? { ...state, ...payload.state }
+      : (payload.state as S);
+  };
+}
+
+export function persistStore<S, A extends Action = Action, E = undefined>(
+  store: Store<S, A, E>,
+  config: PersistConfig<S>,
+): Persistor {
+  const {
+    key,
+    storage,
+    version = 0,
+    migrations,
+    whitelist,
+    blacklist,
+    throttle = 100,
+    onError = console.error,
+  } = config;
+  const storageKey = `persist:${key}`;
+  const listeners: Set<() => void> = new Set();
+
+  let isRehydrated = false;
+  let lastWritten: string | undefined;
+  let lastWriteAt = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  function pick(state: S): unknown {
+    if (!isPlainObject(state)) return state;
+
+    return Object.fromEntries(
+      Object.entries(state).filter(
+        ([slice]) =>
+          (!whitelist || whitelist.includes(slice as keyof S)) &&
+          !blacklist?.includes(slice as keyof S),
+      ),
+    );
+  }
+
+  function write(): Promise<void> {
+    clearTimeout(timer);
+    timer = undefined;
+    lastWriteAt = Date.now();
+
+    const serialized = JSON.stringify({
+      version,
+      state: pick(store.getState()),
+    } satisfies PersistedState);
+
+    if (serialized === lastWritten) return pendingWrite;
+    lastWritten = serialized;
+
+    pendingWrite = pendingWrite
+      .then(() => storage.setItem(storageKey, serialized))
+      .catch(onError);
+
+    return pendingWrite;
+  }
+
+  function scheduleWrite(): void {
+    if (!isRehydrated || timer !== undefined) return;
+
+    const wait = lastWriteAt + throttle - Date.now();
+    if (wait <= 0) {
+      write();
+    } else {
+      timer = setTimeout(write, wait);
+    }
+  }
+
+  async function readPersistedState(): Promise<unknown> {
+    const raw = await storage.getItem(storageKey);
+    if (raw === null) return undefined;
+
+    const persisted = JSON.parse(raw) as PersistedState;
+    return migrate(persisted.state, persisted.version, version, migrations);
+  }
+
+  const unsubscribe = store.subscribe(scheduleWrite);
+
+  const rehydrated = readPersistedState()
+    .catch((error: unknown) => {
+      onError(error);
+      return undefined;
+    })
+    .then((state) => {
+      store.dispatch({
+        type: PersistActionTypes.REHYDRATE,
+        payload: { key, state },
+      } as unknown as A);
+
+      isRehydrated = true;
+      listeners.forEach((listener) => {
+        listener();
+      });
+    });
+
+  return {
+    rehydrated,
+    isRehydrated: () => isRehydrated,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    flush: () => (isRehydrated ? write() : rehydrated.then(write)),
+    purge: async () => {
+      clearTimeout(timer);
+      timer = undefined;
+      lastWritten = undefined;
+      await pendingWrite;
+      await storage.removeItem(storageKey);
+    },
+    stop: () => {
+      clearTimeout(timer);
+      timer = undefined;
+      unsubscribe();
+    },
+  };
+}
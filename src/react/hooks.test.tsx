@@ -2,12 +2,24 @@
  * @jest-environment jsdom
  */
 
-import { fireEvent, render, screen } from "@testing-library/react";
+import { act, fireEvent, render, screen } from "@testing-library/react";
 import "@testing-library/jest-dom";
 import type { ReactNode } from "react";
+import { useEffect } from "react";
+import { createSelector } from "../create-selector";
 import type { Action, Store } from "../create-store";
 import { createStore } from "../create-store";
-import { useSelector, useStore } from "./hooks";
+import { deepEqual } from "../deep-equal";
+import { createMemoryStorage, persistReducer, persistStore } from "../persist";
+import { createReducerRegistry } from "../reducer-registry";
+import { shallowEqual } from "../shallow-equal";
+import {
+  useDispatch,
+  useMemoizedSelector,
+  useRehydrated,
+  useSelector,
+  useStore,
+} from "./hooks";
 import { StoreProvider } from "./store-provider";
 
 type State = {
@@ -109,6 +121,135 @@ describe("useSelector", () => {
     // No re-render because `count` didn't change
     expect(renderSpy).toHaveBeenCalledTimes(1);
   });
+
+  it("compares against the current selector after it changes", () => {
+    type Counts = { counts: Record<string, number> };
+    const countsReducer = (state: Counts, action: Action): Counts =>
+      action.type === "set"
+        ? { counts: { ...state.counts, ...(action.payload as object) } }
+        : state;
+    const store = createStore(countsReducer, { counts: { a: 5, b: 7 } });
+
+    function Count({ id }: { id: string }) {
+      const count = useSelector((s: Counts) => s.counts[id]);
+      return <div data-testid="count">{count}</div>;
+    }
+
+    const { rerender } = render(
+      <StoreProvider store={store}>
+        <Count id="a" />
+      </StoreProvider>,
+    );
+    rerender(
+      <StoreProvider store={store}>
+        <Count id="b" />
+      </StoreProvider>,
+    );
+    expect(screen.getByTestId("count")).toHaveTextContent("7");
+
+    act(() => store.dispatch({ type: "set", payload: { b: 5 } }));
+
+    expect(screen.getByTestId("count")).toHaveTextContent("5");
+  });
+
+  it("runs the selector once per store change", () => {
+    const store = createStore(reducer, initialState);
+    const selector = jest.fn((s: State) => s.count);
+
+    function SpyComponent() {
+      useSelector(selector);
+      return null;
+    }
+
+    render(
+      <StoreProvider store={store}>
+        <SpyComponent />
+      </StoreProvider>,
+    );
+    selector.mockClear();
+
+    act(() => {
+      store.dispatch({ type: "setText", payload: "world" });
+    });
+
+    expect(selector).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("useSelector with derived objects", () => {
+  it("does not loop when the selector returns a new object", () => {
+    const store = createStore(reducer, initialState);
+    const renderSpy = jest.fn();
+
+    function Derived() {
+      const value = useSelector((s: State) => ({ count: s.count }));
+      renderSpy(value);
+      return <div data-testid="derived">{value.count}</div>;
+    }
+
+    render(
+      <StoreProvider store={store}>
+        <Derived />
+        <Dispatcher />
+      </StoreProvider>,
+    );
+
+    fireEvent.click(screen.getByTestId("inc"));
+
+    expect(screen.getByTestId("derived")).toHaveTextContent("1");
+    expect(renderSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips re-renders when shallowEqual considers values equal", () => {
+    const store = createStore(reducer, initialState);
+    const renderSpy = jest.fn();
+
+    function Derived() {
+      const value = useSelector(
+        (s: State) => ({ count: s.count }),
+        shallowEqual,
+      );
+      renderSpy(value);
+      return null;
+    }
+
+    render(
+      <StoreProvider store={store}>
+        <Derived />
+      </StoreProvider>,
+    );
+
+    act(() => {
+      store.dispatch({ type: "setText", payload: "world" });
+    });
+
+    expect(renderSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the previous reference when deepEqual considers values equal", () => {
+    const store = createStore(reducer, initialState);
+    const values: unknown[] = [];
+
+    function Derived() {
+      const value = useSelector((s: State) => [s.count], deepEqual);
+      values.push(value);
+      return null;
+    }
+
+    const { rerender } = render(
+      <StoreProvider store={store}>
+        <Derived />
+      </StoreProvider>,
+    );
+    rerender(
+      <StoreProvider store={store}>
+        <Derived />
+      </StoreProvider>,
+    );
+
+    expect(values).toHaveLength(2);
+    expect(values[1]).toBe(values[0]);
+  });
 });
 
 describe("useStore", () => {
@@ -168,3 +309,151 @@ describe("useStore", () => {
     expect(screen.getByTestId("b")).toHaveTextContent("10");
   });
 });
+
+describe("useDispatch", () => {
+  it("returns the store dispatch typed by the action union", () => {
+    type CounterAction = { type: "inc" } | { type: "setText"; payload: string };
+    const store = createStore<State, CounterAction>(reducer, initialState);
+
+    function TypedDispatcher() {
+      const dispatch = useDispatch<State, CounterAction>();
+      return (
+        <button
+          type="button"
+          data-testid="typed-inc"
+          onClick={() => dispatch({ type: "inc" })}
+        />
+      );
+    }
+
+    render(
+      <StoreProvider store={store}>
+        <TypedDispatcher />
+      </StoreProvider>,
+    );
+
+    fireEvent.click(screen.getByTestId("typed-inc"));
+
+    expect(store.getState().count).toBe(1);
+  });
+});
+
+describe("useMemoizedSelector", () => {
+  const makeSelectLabel = () =>
+    createSelector(
+      [(s: State) => s.text, (_s: State, suffix: string) => suffix],
+      (text, suffix) => ({ label: `${text}${suffix}` }),
+    );
+
+  it("creates one selector instance per component", () => {
+    const store = createStore(reducer, initialState);
+    const factory = jest.fn(makeSelectLabel);
+
+    function Label({ suffix }: { suffix: string }) {
+      const { label } = useMemoizedSelector(factory, suffix);
+      return <div data-testid={`label${suffix}`}>{label}</div>;
+    }
+
+    render(
+      <StoreProvider store={store}>
+        <Label suffix="!" />
+        <Label suffix="?" />
+      </StoreProvider>,
+    );
+
+    expect(screen.getByTestId("label!")).toHaveTextContent("hello!");
+    expect(screen.getByTestId("label?")).toHaveTextContent("hello?");
+    expect(factory).toHaveBeenCalledTimes(2);
+  });
+
+  it("re-renders only when the derived value changes", () => {
+    const store = createStore(reducer, initialState);
+    const renderSpy = jest.fn();
+
+    function Label() {
+      const value = useMemoizedSelector(makeSelectLabel, "!");
+      renderSpy(value);
+      return null;
+    }
+
+    render(
+      <StoreProvider store={store}>
+        <Label />
+        <Dispatcher />
+      </StoreProvider>,
+    );
+
+    fireEvent.click(screen.getByTestId("inc"));
+
+    expect(renderSpy).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("reducer injection", () => {
+  it("renders injected slices without remounting the provider", () => {
+    type AppState = { count: number; lazy?: string };
+    const count = (state: number, action: Action) =>
+      action.type === "inc" ? state + 1 : state;
+    const store = createStore(
+      (state: AppState, action: Action): AppState => ({
+        ...state,
+        count: count(state.count, action),
+      }),
+      { count: 0 },
+    );
+    const registry = createReducerRegistry(store, { count });
+    const mounts = jest.fn();
+
+    function Lazy() {
+      const lazy = useSelector((s: AppState) => s.lazy ?? "not loaded");
+      useEffect(mounts, []);
+      return <div data-testid="lazy">{lazy}</div>;
+    }
+
+    render(
+      <StoreProvider store={store}>
+        <Lazy />
+      </StoreProvider>,
+    );
+
+    act(() => {
+      registry.inject("lazy", (state: string) => state, "loaded");
+    });
+
+    expect(screen.getByTestId("lazy")).toHaveTextContent("loaded");
+    expect(mounts).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("useRehydrated", () => {
+  it("renders once the persisted state is restored", async () => {
+    const config = {
+      key: "root",
+      storage: createMemoryStorage({
+        "persist:root": JSON.stringify({ version: 0, state: { count: 4 } }),
+      }),
+    };
+    const store = createStore(persistReducer(config, reducer), initialState);
+    const persistor = persistStore(store, config);
+
+    function Gate() {
+      const count = useSelector((s: State) => s.count);
+      return (
+        <div data-testid="gate">
+          {useRehydrated(persistor) ? count : "loading"}
+        </div>
+      );
+    }
+
+    render(
+      <StoreProvider store={store}>
+        <Gate />
+      </StoreProvider>,
+    );
+    expect(screen.getByTestId("gate")).toHaveTextContent("loading");
+
+    await act(() => persistor.rehydrated);
+
+    expect(screen.getByTestId("gate")).toHaveTextContent("4");
+  });
+});
@@ -1,20 +1,75 @@
 import type { Context } from "react";
-import { useContext, useSyncExternalStore } from "react";
-import type { Store } from "../create-store";
+import {
+  useCallback,
+  useContext,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import type { Action, Store, ThunkDispatch } from "../create-store";
+import type { Persistor } from "../persist";
 import { StoreContext } from "./store-context";
 
-export function useSelector<T, S>(selector: (state: T) => S): S {
-  const store = useStore();
+export function useSelector<T, S>(
+  selector: (state: T) => S,
+  equalityFn: (a: S, b: S) => boolean = Object.is,
+): S {
+  const store = useStore<T>();
+  const cache = useRef<{
+    state: T;
+    selector: (state: T) => S;
+    selected: S;
+  } | null>(null);
 
-  return useSyncExternalStore(
-    store.subscribe,
-    () => selector(store.getState() as T),
-    () => selector(store.getState() as T),
+  // Selections must be stable for the same store state, or React re-renders
+  // forever
+  const select = useCallback(
+    (state: T): S => {
+      const cached = cache.current;
+
+      if (cached && cached.state === state && cached.selector === selector) {
+        return cached.selected;
+      }
+
+      const next = selector(state);
+      const selected =
+        cached && equalityFn(cached.selected, next) ? cached.selected : next;
+
+      cache.current = { state, selector, selected };
+      return selected;
+    },
+    [selector, equalityFn],
   );
+
+  // React is only told about changes to this component's selection. A new
+  // selector subscribes again, so changes are compared with what it selects
+  const subscribe = useCallback(
+    (onSelectionChange: () => void) =>
+      store.subscribe(select, onSelectionChange),
+    [store, select],
+  );
+
+  const getSnapshot = () => select(store.getState());
+
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
 }
 
-export function useStore<T>(): Store<T> {
-  const store = useContext(StoreContext as unknown as Context<Store<T>>);
+export function useMemoizedSelector<T, P extends unknown[], S>(
+  factory: () => (state: T, ...params: P) => S,
+  ...params: P
+): S {
+  // One selector instance per component, so each keeps its own cache
+  const [selector] = useState(factory);
+
+  return useSelector((state: T) => selector(state, ...params));
+}
+
+export function useStore<T, A extends Action = Action, E = undefined>(): Store<
+  T,
+  A,
+  E
+> {
+  const store = useContext(StoreContext as unknown as Context<Store<T, A, E>>);
 
   if (!store) {
     throw new Error("useStore must be used inside StoreProvider");
@@ -22,3 +77,19 @@ export function useStore<T>(): Store<T> {
 
   return store;
 }
+
+export function useDispatch<
+  T,
+  A extends Action = Action,
+  E = undefined,
+>(): ThunkDispatch<T, A, E> {
+  return useStore<T, A, E>().dispatch;
+}
+
+export function useRehydrated(persistor: Persistor): boolean {
+  return useSyncExternalStore(
+    persistor.subscribe,
+    persistor.isRehydrated,
+    persistor.isRehydrated,
+  );
+}
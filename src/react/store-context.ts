@@ -2,4 +2,4 @@ import { createContext } from "react";
 import type { Store } from "../create-store";
 
 // biome-ignore lint/suspicious/noExplicitAny: State not yet defined
-export const StoreContext = createContext<Store<any> | null>(null);
+export const StoreContext = createContext<Store<any, any, any> | null>(null);
@@ -1,13 +1,16 @@
 import type { ReactNode } from "react";
-import type { Store } from "../create-store";
+import type { Action, Store } from "../create-store";
 import { StoreContext } from "./store-context";
 
-type StoreProviderProps<T> = {
+type StoreProviderProps<T, A extends Action, E> = {
   children: ReactNode;
-  store: Store<T>;
+  store: Store<T, A, E>;
 };
 
-export function StoreProvider<T>({ children, store }: StoreProviderProps<T>) {
+export function StoreProvider<T, A extends Action = Action, E = undefined>({
+  children,
+  store,
+}: StoreProviderProps<T, A, E>) {
   return (
     <StoreContext.Provider value={store}>{children}</StoreContext.Provider>
   );
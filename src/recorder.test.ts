@@ -0,0 +1,181 @@
+import type { Action, Reducer } from "./create-store";
+import { createStore } from "./create-store";
+import type { Recording } from "./recorder";
+import {
+  createReplay,
+  parseRecording,
+  recordActions,
+  replay,
+} from "./recorder";
+
+describe("recorder", () => {
+  type State = { items: string[]; total: number };
+
+  const reducer: Reducer<State> = (state, action) => {
+    switch (action.type) {
+      case "add":
+        return {
+          items: [...state.items, action.payload as string],
+          total: state.total + 1,
+        };
+      case "reset":
+        return { items: [], total: 0 };
+      default:
+        return state;
+    }
+  };
+
+  const initialState: State = { items: [], total: 0 };
+
+  function record(actions: Action[]) {
+    let time = 100;
+    const store = createStore(reducer, initialState);
+    const recorder = recordActions(store, reducer, { now: () => time++ });
+
+    for (const action of actions) store.dispatch(action);
+
+    return { store, recorder };
+  }
+
+  describe("recordActions", () => {
+    it("captures the initial state and every action with timestamps", () => {
+      const { recorder } = record([
+        { type: "add", payload: "a" },
+        { type: "add", payload: "b" },
+      ]);
+
+      expect(recorder.getRecording()).toEqual({
+        initialState,
+        actions: [
+          {
+            action: { type: "add", payload: "a" },
+            timestamp: 100,
+            state: { items: ["a"], total: 1 },
+          },
+          {
+            action: { type: "add", payload: "b" },
+            timestamp: 101,
+            state: { items: ["a", "b"], total: 2 },
+          },
+        ],
+        finalState: { items: ["a", "b"], total: 2 },
+      });
+    });
+
+    it("captures actions dispatched by middleware", () => {
+      const store = createStore(reducer, initialState, [
+        ({ dispatch }) =>
+          (next) =>
+          (action) => {
+            next(action);
+            if ((action as Action).type === "reset") {
+              dispatch({ type: "add", payload: "default" });
+            }
+          },
+      ]);
+      const recorder = recordActions(store, reducer);
+
+      store.dispatch({ type: "reset" });
+
+      expect(
+        recorder.getRecording().actions.map(({ action }) => action.type),
+      ).toEqual(["reset", "add"]);
+    });
+
+    it("keeps recording after replaceReducer and stops on stop", () => {
+      const { store, recorder } = record([]);
+
+      store.replaceReducer(reducer);
+      store.dispatch({ type: "add", payload: "a" });
+      recorder.stop();
+      store.dispatch({ type: "add", payload: "b" });
+
+      const { actions, finalState } = recorder.getRecording();
+      expect(actions.map(({ action }) => action.type)).toEqual([
+        "@@refluxio/REPLACE",
+        "add",
+      ]);
+      expect(finalState).toEqual({ items: ["a"], total: 1 });
+      expect(store.getState().items).toEqual(["a", "b"]);
+    });
+
+    it("serializes to JSON that parses back into the recording", () => {
+      const { recorder } = record([{ type: "add", payload: "a" }]);
+
+      expect(parseRecording(recorder.serialize())).toEqual(
+        recorder.getRecording(),
+      );
+    });
+
+    it("rejects JSON that is not a recording", () => {
+      expect(() => parseRecording("{}")).toThrow(
+        "The JSON does not contain a recording.",
+      );
+    });
+  });
+
+  describe("replay", () => {
+    it("reproduces the recorded final state", () => {
+      const { recorder } = record([
+        { type: "add", payload: "a" },
+        { type: "reset" },
+        { type: "add", payload: "b" },
+      ]);
+
+      expect(replay(recorder.getRecording(), reducer)).toEqual({
+        state: { items: ["b"], total: 1 },
+        matches: true,
+      });
+    });
+
+    it("replays step by step", () => {
+      const { recorder } = record([
+        { type: "add", payload: "a" },
+        { type: "add", payload: "b" },
+      ]);
+      const replayer = createReplay(recorder.getRecording(), reducer);
+
+      expect(replayer.step()).toBe(true);
+      expect(replayer.position()).toBe(1);
+      expect(replayer.store.getState().items).toEqual(["a"]);
+      expect(replayer.result().matches).toBe(false);
+
+      expect(replayer.step()).toBe(true);
+      expect(replayer.step()).toBe(false);
+      expect(replayer.result().matches).toBe(true);
+    });
+
+    it("reports the first action where the states diverge", () => {
+      const { recorder } = record([
+        { type: "add", payload: "a" },
+        { type: "add", payload: "b" },
+        { type: "add", payload: "c" },
+      ]);
+      // A reducer that regressed: it no longer counts the second item
+      const buggy: Reducer<State> = (state, action) => {
+        const next = reducer(state, action);
+        return action.payload === "b" ? { ...next, total: state.total } : next;
+      };
+
+      const result = replay(recorder.getRecording(), buggy);
+
+      expect(result.matches).toBe(false);
+      expect(result.divergence).toEqual({
+        index: 1,
+        action: { type: "add", payload: "b" },
+        expected: { items: ["a", "b"], total: 2 },
+        actual: { items: ["a", "b"], total: 1 },
+      });
+    });
+
+    it("fails when the final state differs from the recorded one", () => {
+      const recording: Recording<State> = {
+        initialState,
+        actions: [],
+        finalState: { items: ["lost"], total: 1 },
+      };
+
+      expect(replay(recording, reducer).matches).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import type { Action, Reducer, Store } from "./create-store";
+import { createStore } from "./create-store";
+import { deepEqual } from "./deep-equal";
+
+export type RecordedAction<S, A extends Action = Action> = {
+  action: A;
+  timestamp: number;
+  state: S;
+};
+
+export type Recording<S, A extends Action = Action> = {
+  initialState: S;
+  actions: RecordedAction<S, A>[];
+  finalState: S;
+};
+
+export type Recorder<S, A extends Action = Action> = {
+  getRecording: () => Recording<S, A>;
+  serialize: () => string;
+  stop: () => void;
+};
+
+export type RecorderOptions = {
+  now?: () => number;
+};
+
+export type Divergence<S, A extends Action = Action> = {
+  index: number;
+  action: A;
+  expected: S;
+  actual: S;
+};
+
+export type ReplayResult<S, A extends Action = Action> = {
+  state: S;
+  matches: boolean;
+  divergence?: Divergence<S, A>;
+};
+
+export type Replay<S, A extends Action = Action> = {
+  store: Store<S, A>;
+  position: () => number;
+  step: () => boolean;
+  run: () => ReplayResult<S, A>;
+  result: () => ReplayResult<S, A>;
+};
+
+// Records every action that reaches the reducer, including those dispatched
+// by middleware, together with the state it produced
+export function recordActions<S, A extends Action = Action, E = undefined>(
+  store: Store<S, A, E>,
+  reducer: Reducer<S, A>,
+  options: RecorderOptions = {},
+): Recorder<S, A> {
+  const { now = Date.now } = options;
+  const replaceReducer = store.replaceReducer;
+
+  let currentReducer = reducer;
+  let isRecording = false;
+  let finalState: S | undefined;
+  const actions: RecordedAction<S, A>[] = [];
+
+  function lift(reducer: Reducer<S, A>): Reducer<S, A> {
+    return (state, action) => {
+      const nextState = reducer(state, action);
+      if (isRecording) {
+        actions.push({ action, timestamp: now(), state: nextState });
+      }
+      return nextState;
+    };
+  }
+
+  store.replaceReducer = (nextReducer) => {
+    currentReducer = nextReducer;
+    replaceReducer(lift(nextReducer));
+  };
+  store.replaceReducer(reducer);
+
+  const initialState = store.getState();
+  isRecording = true;
+
+  function getRecording(): Recording<S, A> {
+    return {
+      initialState,
+      actions: [...actions],
+      finalState: isRecording ? store.getState() : (finalState as S),
+    };
+  }
+
+  return {
+    getRecording,
+    serialize: () => JSON.stringify(getRecording()),
+    stop(): void {
+      if (!isRecording) return;
+
+      finalState = store.getState();
+      isRecording = false;
+      store.replaceReducer = replaceReducer;
+      replaceReducer(currentReducer);
+    },
+  };
+}
+
+export function parseRecording<S, A extends Action = Action>(
+  json: string,
+): Recording<S, A> {
+  const recording = JSON.parse(json) as Partial<Recording<S, A>>;
+
+  if (!Array.isArray(recording.actions) || !("initialState" in recording)) {
+    throw new Error("The JSON does not contain a recording.");
+  }
+
+  return recording as Recording<S, A>;
+}
+
+// Dispatches the recorded actions one by one into a new store and compares
+// each resulting state with the recorded one
+export function createReplay<S, A extends Action = Action>(
+  recording: Recording<S, A>,
+  reducer: Reducer<S, A>,
+): Replay<S, A> {
+  const store = createStore(reducer, recording.initialState);
+  let index = 0;
+  let divergence: Divergence<S, A> | undefined;
+
+  function step(): boolean {
+    const recorded = recording.actions[index];
+    if (!recorded) return false;
+
+    store.dispatch(recorded.action);
+    const actual = store.getState();
+
+    if (!divergence && !deepEqual(actual, recorded.state)) {
+      divergence = {
+        index,
+        action: recorded.action,
+        expected: recorded.state,
+        actual,
+      };
+    }
+
+    index++;
+    return true;
+  }
+
+  function result(): ReplayResult<S, A> {
+    const state = store.getState();
+    const matches =
+      !divergence &&
+      index === recording.actions.length &&
+      deepEqual(state, recording.finalState);
+
+    return divergence ? { state, matches, divergence } : { state, matches };
+  }
+
+  function run(): ReplayResult<S, A> {
+    while (step()) {
+      // Replays the remaining actions
+    }
+    return result();
+  }
+
+  return { store, position: () => index, step, run, result };
+}
+
+export function replay<S, A extends Action = Action>(
+  recording: Recording<S, A>,
+  reducer: Reducer<S, A>,
+): ReplayResult<S, A> {
+  return createReplay(recording, reducer).run();
+}
@@ -0,0 +1,117 @@
+import type { Action } from "./create-store";
+import { createStore } from "./create-store";
+import { createReducerRegistry } from "./reducer-registry";
+
+describe("createReducerRegistry", () => {
+  const counter = (state: number, action: Action): number =>
+    action.type === "inc" ? state + 1 : state;
+
+  const todos = (state: string[], action: Action): string[] =>
+    action.type === "todos/add" ? [...state, action.payload as string] : state;
+
+  function counterRoot(state: { counter: number }, action: Action) {
+    return { counter: counter(state.counter, action) };
+  }
+
+  function setup() {
+    const store = createStore(counterRoot, { counter: 0 });
+    const registry = createReducerRegistry(store, { counter });
+
+    return { store, registry };
+  }
+
+  describe("inject", () => {
+    it("merges the initial state of the injected slice", () => {
+      const { store, registry } = setup();
+
+      registry.inject("todos", todos, ["first"]);
+
+      expect(store.getState()).toEqual({ counter: 0, todos: ["first"] });
+    });
+
+    it("routes actions to injected and static slices", () => {
+      const { store, registry } = setup();
+
+      registry.inject("todos", todos, []);
+      store.dispatch({ type: "inc" });
+      store.dispatch({ type: "todos/add", payload: "a" });
+
+      expect(store.getState()).toEqual({ counter: 1, todos: ["a"] });
+    });
+
+    it("notifies subscribers about the new slice", () => {
+      const { store, registry } = setup();
+      const listener = jest.fn();
+
+      store.subscribe(listener);
+      registry.inject("todos", todos, []);
+
+      expect(listener).toHaveBeenCalledWith({ counter: 0, todos: [] });
+    });
+
+    it("keeps existing slice state when a reducer is replaced", () => {
+      const { store, registry } = setup();
+
+      registry.inject("todos", todos, []);
+      store.dispatch({ type: "todos/add", payload: "a" });
+      registry.inject(
+        "todos",
+        (state: string[], action: Action) =>
+          action.type === "todos/clear" ? [] : state,
+        [],
+      );
+
+      expect(store.getState()).toEqual({ counter: 0, todos: ["a"] });
+
+      store.dispatch({ type: "todos/clear" });
+      expect(store.getState()).toEqual({ counter: 0, todos: [] });
+    });
+
+    it("ignores injecting the same reducer twice", () => {
+      const { store, registry } = setup();
+      const listener = jest.fn();
+
+      registry.inject("todos", todos, []);
+      store.subscribe(listener);
+      registry.inject("todos", todos, ["ignored"]);
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(store.getState()).toEqual({ counter: 0, todos: [] });
+    });
+  });
+
+  describe("eject", () => {
+    it("removes the slice and its state", () => {
+      const { store, registry } = setup();
+      const listener = jest.fn();
+
+      registry.inject("todos", todos, []);
+      store.subscribe(listener);
+      registry.eject("todos");
+
+      expect(registry.has("todos")).toBe(false);
+      expect(store.getState()).toEqual({ counter: 0 });
+      expect(listener).toHaveBeenCalledWith({ counter: 0 });
+    });
+
+    it("ignores unknown keys", () => {
+      const { store, registry } = setup();
+      const listener = jest.fn();
+
+      store.subscribe(listener);
+      registry.eject("missing");
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  it("reports registered keys", () => {
+    const { registry } = setup();
+
+    registry.inject("todos", todos, []);
+
+    expect(registry.has("counter")).toBe(true);
+    expect(registry.has("todos")).toBe(true);
+    expect(registry.has("missing")).toBe(false);
+  });
+});
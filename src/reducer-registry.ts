@@ -0,0 +1,65 @@
+import type { ReducersMapObject } from "./combine-reducers";
+import { combineReducers } from "./combine-reducers";
+import type { Action, Reducer, Store } from "./create-store";
+
+export type ReducerRegistry<A extends Action = Action> = {
+  inject: <T>(key: string, reducer: Reducer<T, A>, initialState: T) => void;
+  eject: (key: string) => void;
+  has: (key: string) => boolean;
+};
+
+export function createReducerRegistry<
+  S extends object,
+  A extends Action = Action,
+  E = undefined,
+>(
+  store: Store<S, A, E>,
+  staticReducers: ReducersMapObject<S, A>,
+): ReducerRegistry<A> {
+  const reducers = new Map<string, Reducer<unknown, A>>(
+    Object.entries(staticReducers),
+  );
+  const initialStates = new Map<string, unknown>();
+
+  function withInitialState(
+    key: string,
+    reducer: Reducer<unknown, A>,
+  ): Reducer<unknown, A> {
+    return (state, action) =>
+      reducer(state === undefined ? initialStates.get(key) : state, action);
+  }
+
+  function replaceRootReducer(): void {
+    const slices: Record<string, Reducer<unknown, A>> = {};
+    reducers.forEach((reducer, key) => {
+      slices[key] = withInitialState(key, reducer);
+    });
+
+    store.replaceReducer(combineReducers(slices) as unknown as Reducer<S, A>);
+  }
+
+  function inject<T>(
+    key: string,
+    reducer: Reducer<T, A>,
+    initialState: T,
+  ): void {
+    if (reducers.get(key) === reducer) return;
+
+    reducers.set(key, reducer as Reducer<unknown, A>);
+    initialStates.set(key, initialState);
+    replaceRootReducer();
+  }
+
+  function eject(key: string): void {
+    if (!reducers.delete(key)) return;
+
+    initialStates.delete(key);
+    replaceRootReducer();
+  }
+
+  function has(key: string): boolean {
+    return reducers.has(key);
+  }
+
+  return { inject, eject, has };
+}
@@ -0,0 +1,106 @@
+import {
+  all,
+  call,
+  cancel,
+  fork,
+  isEffect,
+  put,
+  race,
+  type SagaIterator,
+  select,
+  type Task,
+  take,
+} from "./saga-effects";
+
+describe("saga effects", () => {
+  const fetchUser = (id: number) => Promise.resolve({ id });
+
+  describe("effect creators", () => {
+    it("describes calls without running them", () => {
+      const fn = jest.fn();
+
+      expect(call(fn, 1, "a")).toEqual({ effect: "call", fn, args: [1, "a"] });
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it("describes puts, selects and takes", () => {
+      const selector = (state: { count: number }) => state.count;
+
+      expect(put({ type: "inc" })).toEqual({
+        effect: "put",
+        action: { type: "inc" },
+      });
+      expect(select(selector)).toEqual({
+        effect: "select",
+        selector,
+        args: [],
+      });
+      expect(select()).toEqual({
+        effect: "select",
+        selector: undefined,
+        args: [],
+      });
+      expect(take()).toEqual({ effect: "take", pattern: "*" });
+      expect(take(["a", "b"])).toEqual({ effect: "take", pattern: ["a", "b"] });
+    });
+
+    it("describes forks, cancels, races and all", () => {
+      const task = {} as Task;
+      const worker = function* (): SagaIterator {};
+
+      expect(fork(worker)).toEqual({ effect: "fork", fn: worker, args: [] });
+      expect(cancel(task)).toEqual({ effect: "cancel", task });
+      expect(race({ a: take("a"), b: take("b") })).toEqual({
+        effect: "race",
+        effects: { a: take("a"), b: take("b") },
+      });
+      expect(all([take("a"), take("b")])).toEqual({
+        effect: "all",
+        effects: [take("a"), take("b")],
+      });
+    });
+
+    it("recognizes effects", () => {
+      expect(isEffect(put({ type: "inc" }))).toBe(true);
+      expect(isEffect({ type: "inc" })).toBe(false);
+      expect(isEffect(null)).toBe(false);
+    });
+  });
+
+  describe("stepping through a saga", () => {
+    function* loadUser(): SagaIterator {
+      const action = (yield take("user/load")) as { payload: number };
+      try {
+        const user = yield call(fetchUser, action.payload);
+        yield put({ type: "user/loaded", payload: user });
+      } catch (error) {
+        yield put({ type: "user/failed", payload: error });
+      }
+    }
+
+    it("yields effect descriptions in order", () => {
+      const gen = loadUser();
+
+      expect(gen.next().value).toEqual(take("user/load"));
+      expect(gen.next({ type: "user/load", payload: 1 }).value).toEqual(
+        call(fetchUser, 1),
+      );
+      expect(gen.next({ id: 1 }).value).toEqual(
+        put({ type: "user/loaded", payload: { id: 1 } }),
+      );
+      expect(gen.next().done).toBe(true);
+    });
+
+    it("can throw into the saga to test error paths", () => {
+      const gen = loadUser();
+      const error = new Error("offline");
+
+      gen.next();
+      gen.next({ type: "user/load", payload: 1 });
+
+      expect(gen.throw(error).value).toEqual(
+        put({ type: "user/failed", payload: error }),
+      );
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import type { Action } from "./create-store";
+
+export type Task<T = unknown> = {
+  isRunning: () => boolean;
+  isCancelled: () => boolean;
+  toPromise: () => Promise<T | undefined>;
+  cancel: () => void;
+};
+
+export type SagaIterator<R = void> = Generator<Effect, R, unknown>;
+
+export type TakePattern<A extends Action = Action> =
+  | "*"
+  | string
+  | string[]
+  | ((action: A) => boolean);
+
+export type CallEffect = {
+  effect: "call";
+  fn: (...args: never[]) => unknown;
+  args: unknown[];
+};
+
+export type PutEffect<A extends Action = Action> = {
+  effect: "put";
+  action: A;
+};
+
+export type SelectEffect = {
+  effect: "select";
+  selector: ((state: never, ...args: never[]) => unknown) | undefined;
+  args: unknown[];
+};
+
+export type TakeEffect<A extends Action = Action> = {
+  effect: "take";
+  pattern: TakePattern<A>;
+};
+
+export type ForkEffect = {
+  effect: "fork";
+  fn: (...args: never[]) => unknown;
+  args: unknown[];
+};
+
+export type CancelEffect = {
+  effect: "cancel";
+  task: Task;
+};
+
+export type RaceEffect = {
+  effect: "race";
+  effects: Record<string, Effect>;
+};
+
+export type AllEffect = {
+  effect: "all";
+  effects: Effect[] | Record<string, Effect>;
+};
+
+export type Effect =
+  | CallEffect
+  | PutEffect
+  | SelectEffect
+  | TakeEffect
+  | ForkEffect
+  | CancelEffect
+  | RaceEffect
+  | AllEffect;
+
+export function call<Args extends unknown[]>(
+  fn: (...args: Args) => unknown,
+  ...args: Args
+): CallEffect {
+  return { effect: "call", fn, args };
+}
+
+export function put<A extends Action>(action: A): PutEffect<A> {
+  return { effect: "put", action };
+}
+
+export function select(): SelectEffect;
+export function select<S, Args extends unknown[]>(
+  selector: (state: S, ...args: Args) => unknown,
+  ...args: Args
+): SelectEffect;
+export function select(
+  selector?: (state: never, ...args: never[]) => unknown,
+  ...args: unknown[]
+): SelectEffect {
+  return { effect: "select", selector, args };
+}
+
+export function take<A extends Action = Action>(
+  pattern: TakePattern<A> = "*",
+): TakeEffect<A> {
+  return { effect: "take", pattern };
+}
+
+export function fork<Args extends unknown[]>(
+  fn: (...args: Args) => unknown,
+  ...args: Args
+): ForkEffect {
+  return { effect: "fork", fn, args };
+}
+
+export function cancel(task: Task): CancelEffect {
+  return { effect: "cancel", task };
+}
+
+export function race(effects: Record<string, Effect>): RaceEffect {
+  return { effect: "race", effects };
+}
+
+export function all(effects: Effect[] | Record<string, Effect>): AllEffect {
+  return { effect: "all", effects };
+}
+
+export function delay(ms: number): CallEffect {
+  return call(
+    (duration: number) =>
+      new Promise<void>((resolve) => setTimeout(resolve, duration)),
+    ms,
+  );
+}
+
+export function isEffect(value: unknown): value is Effect {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { effect?: unknown }).effect === "string"
+  );
+}
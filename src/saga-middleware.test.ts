@@ -0,0 +1,318 @@
+import type { Action } from "./create-store";
+import { createStore } from "./create-store";
+import {
+  all,
+  call,
+  cancel,
+  delay,
+  fork,
+  put,
+  race,
+  type SagaIterator,
+  select,
+  type Task,
+  take,
+} from "./saga-effects";
+import { createSagaMiddleware } from "./saga-middleware";
+
+describe("createSagaMiddleware", () => {
+  type State = { count: number; log: string[] };
+
+  const reducer = (state: State, action: Action): State => {
+    switch (action.type) {
+      case "inc":
+        return { ...state, count: state.count + 1 };
+      case "log":
+        return { ...state, log: [...state.log, action.payload as string] };
+      default:
+        return state;
+    }
+  };
+
+  function setup(onError = jest.fn()) {
+    const saga = createSagaMiddleware<State>({ onError });
+    const store = createStore(reducer, { count: 0, log: [] }, [saga]);
+
+    return { saga, store, onError };
+  }
+
+  it("requires the middleware to be mounted", () => {
+    const saga = createSagaMiddleware<State>();
+
+    expect(() => saga.run(function* () {})).toThrow(
+      "The saga middleware must be mounted on a store before running a saga.",
+    );
+  });
+
+  describe("basic effects", () => {
+    it("puts actions and selects state", () => {
+      const { saga } = setup();
+      const seen: unknown[] = [];
+
+      saga.run(function* (): SagaIterator {
+        yield put({ type: "inc" });
+        seen.push(yield select((state: State) => state.count));
+        seen.push(yield select());
+      });
+
+      expect(seen).toEqual([1, { count: 1, log: [] }]);
+    });
+
+    it("calls functions and resumes with their result", async () => {
+      const { saga, store } = setup();
+      const greet = (name: string) => Promise.resolve(`hello ${name}`);
+
+      const task = saga.run(function* (): SagaIterator<string> {
+        const message = (yield call(greet, "saga")) as string;
+        yield put({ type: "log", payload: message });
+        return message;
+      });
+
+      await expect(task.toPromise()).resolves.toBe("hello saga");
+      expect(store.getState().log).toEqual(["hello saga"]);
+    });
+
+    it("calls other sagas", async () => {
+      const { saga } = setup();
+
+      function* double(n: number): SagaIterator<number> {
+        yield delay(1);
+        return n * 2;
+      }
+
+      const task = saga.run(function* (): SagaIterator<unknown> {
+        return yield call(double, 21);
+      });
+
+      await expect(task.toPromise()).resolves.toBe(42);
+    });
+
+    it("throws failed calls into the saga", async () => {
+      const { saga, store } = setup();
+      const fail = () => Promise.reject(new Error("offline"));
+
+      const task = saga.run(function* (): SagaIterator {
+        try {
+          yield call(fail);
+        } catch (error) {
+          yield put({ type: "log", payload: (error as Error).message });
+        }
+      });
+
+      await task.toPromise();
+      expect(store.getState().log).toEqual(["offline"]);
+    });
+
+    it("waits for matching actions with take", () => {
+      const { saga, store } = setup();
+
+      saga.run(function* (): SagaIterator {
+        while (true) {
+          const action = (yield take(["ping", "pong"])) as Action;
+          yield put({ type: "log", payload: action.type });
+        }
+      });
+
+      store.dispatch({ type: "ping" });
+      store.dispatch({ type: "inc" });
+      store.dispatch({ type: "pong" });
+
+      expect(store.getState().log).toEqual(["ping", "pong"]);
+    });
+  });
+
+  describe("forks and cancellation", () => {
+    it("forks non-blocking tasks", () => {
+      const { saga, store } = setup();
+
+      function* watcher(): SagaIterator {
+        yield take("ping");
+        yield put({ type: "log", payload: "forked" });
+      }
+
+      saga.run(function* (): SagaIterator {
+        yield fork(watcher);
+        yield put({ type: "log", payload: "parent" });
+      });
+
+      store.dispatch({ type: "ping" });
+
+      expect(store.getState().log).toEqual(["parent", "forked"]);
+    });
+
+    it("waits for forked tasks before completing", () => {
+      const { saga, store } = setup();
+
+      const task = saga.run(function* (): SagaIterator {
+        yield fork(function* (): SagaIterator {
+          yield take("ping");
+        });
+      });
+
+      expect(task.isRunning()).toBe(true);
+      store.dispatch({ type: "ping" });
+      expect(task.isRunning()).toBe(false);
+    });
+
+    it("cancels forked tasks and runs their finally blocks", () => {
+      const { saga, store } = setup();
+
+      function* worker(): SagaIterator {
+        try {
+          yield take("never");
+        } finally {
+          store.dispatch({ type: "log", payload: "cleanup" });
+        }
+      }
+
+      let forked!: Task;
+      saga.run(function* (): SagaIterator {
+        forked = (yield fork(worker)) as Task;
+        yield take("stop");
+        yield cancel(forked);
+      });
+
+      store.dispatch({ type: "stop" });
+
+      expect(forked.isCancelled()).toBe(true);
+      expect(store.getState().log).toEqual(["cleanup"]);
+    });
+
+    it("cancels the whole tree from the root task", () => {
+      const { saga, store } = setup();
+
+      const task = saga.run(function* (): SagaIterator {
+        yield fork(function* (): SagaIterator {
+          yield take("ping");
+          yield put({ type: "inc" });
+        });
+        yield take("ping");
+        yield put({ type: "inc" });
+      });
+
+      task.cancel();
+      store.dispatch({ type: "ping" });
+
+      expect(task.isCancelled()).toBe(true);
+      expect(store.getState().count).toBe(0);
+    });
+
+    it("propagates errors from forked tasks to the parent", async () => {
+      const { saga, onError } = setup();
+      const error = new Error("child failed");
+
+      const task = saga.run(function* (): SagaIterator {
+        yield fork(function* (): SagaIterator {
+          yield delay(1);
+          throw error;
+        });
+        yield take("never");
+      });
+
+      await expect(task.toPromise()).rejects.toBe(error);
+      expect(onError).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe("race and all", () => {
+    it("resolves race with the winner and cancels the losers", () => {
+      const { saga, store } = setup();
+      const results: unknown[] = [];
+
+      saga.run(function* (): SagaIterator {
+        results.push(yield race({ ping: take("ping"), pong: take("pong") }));
+      });
+
+      store.dispatch({ type: "pong" });
+      store.dispatch({ type: "ping" });
+
+      expect(results).toEqual([{ pong: { type: "pong" } }]);
+    });
+
+    it("implements timeouts with race and delay", async () => {
+      const { saga } = setup();
+
+      const task = saga.run(function* (): SagaIterator<unknown> {
+        return yield race({ action: take("never"), timeout: delay(1) });
+      });
+
+      await expect(task.toPromise()).resolves.toEqual({ timeout: undefined });
+    });
+
+    it("waits for all effects in arrays and objects", async () => {
+      const { saga, store } = setup();
+
+      const task = saga.run(function* (): SagaIterator<unknown> {
+        const list = yield all([take("a"), take("b")]);
+        const record = yield all({ count: select((s: State) => s.count) });
+        return [list, record];
+      });
+
+      store.dispatch({ type: "b" });
+      store.dispatch({ type: "a" });
+
+      await expect(task.toPromise()).resolves.toEqual([
+        [{ type: "a" }, { type: "b" }],
+        { count: 0 },
+      ]);
+    });
+
+    it("fails all as soon as one effect fails", async () => {
+      const { saga } = setup();
+      const error = new Error("failed");
+
+      const task = saga.run(function* (): SagaIterator {
+        yield all([take("never"), call(() => Promise.reject(error))]);
+      });
+
+      await expect(task.toPromise()).rejects.toBe(error);
+    });
+  });
+
+  describe("long-lived workflows", () => {
+    it("retries a failing call", async () => {
+      const { saga, store } = setup();
+      let attempts = 0;
+      const flaky = () =>
+        ++attempts < 3
+          ? Promise.reject(new Error("retry"))
+          : Promise.resolve("ok");
+
+      const task = saga.run(function* (): SagaIterator {
+        for (let i = 0; i < 5; i++) {
+          try {
+            const result = yield call(flaky);
+            yield put({ type: "log", payload: result });
+            return;
+          } catch {
+            yield delay(1);
+          }
+        }
+      });
+
+      await task.toPromise();
+      expect(attempts).toBe(3);
+      expect(store.getState().log).toEqual(["ok"]);
+    });
+
+    it("runs long loops of synchronous effects without growing the stack", async () => {
+      const { saga, store, onError } = setup();
+      const child = function* (): SagaIterator<unknown> {
+        return yield select((state: State) => state.count);
+      };
+
+      const task = saga.run(function* (): SagaIterator {
+        for (let i = 0; i < 5000; i++) {
+          yield put({ type: "inc" });
+          yield select();
+          yield call(() => i);
+          yield call(child);
+        }
+      });
+
+      await task.toPromise();
+      expect(store.getState().count).toBe(5000);
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+});
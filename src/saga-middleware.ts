@@ -0,0 +1,468 @@
+import type { MiddlewareFunction } from "./apply-middleware";
+import type { Action } from "./create-store";
+import type { Effect, SagaIterator, TakePattern, Task } from "./saga-effects";
+
+export type SagaMiddlewareOptions = {
+  onError?: (error: unknown) => void;
+};
+
+export type SagaMiddleware<
+  S,
+  A extends Action = Action,
+  E = undefined,
+> = MiddlewareFunction<S, A, E> & {
+  run: <Args extends unknown[]>(
+    saga: (...args: Args) => SagaIterator<unknown>,
+    ...args: Args
+  ) => Task;
+};
+
+type Outcome =
+  | { status: "done"; value: unknown }
+  | { status: "error"; error: unknown }
+  | { status: "cancelled" };
+
+type Callback = (error: unknown, value: unknown, isError?: boolean) => void;
+
+type Taker = {
+  match: (action: Action) => boolean;
+  resolve: (action: Action) => void;
+};
+
+type Env = {
+  getState: () => unknown;
+  dispatch: (action: Action) => unknown;
+  takers: Set<Taker>;
+};
+
+type Proc = {
+  task: Task;
+  start: () => void;
+  fork: (iterator: SagaIterator<unknown>) => Task;
+};
+
+const noop = () => {};
+
+function isIterator(value: unknown): value is SagaIterator<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as SagaIterator<unknown>).next === "function" &&
+    typeof (value as SagaIterator<unknown>).throw === "function"
+  );
+}
+
+function isPromise(value: unknown): value is Promise<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Promise<unknown>).then === "function"
+  );
+}
+
+function toMatcher(pattern: TakePattern): (action: Action) => boolean {
+  if (pattern === "*") return () => true;
+  if (typeof pattern === "string") return (action) => action.type === pattern;
+  if (Array.isArray(pattern)) {
+    return (action) => pattern.includes(action.type);
+  }
+  return pattern;
+}
+
+function runEffect(
+  env: Env,
+  effect: Effect,
+  parent: Proc,
+  cb: Callback,
+): () => void {
+  switch (effect.effect) {
+    case "call": {
+      let result: unknown;
+      try {
+        result = (effect.fn as (...args: unknown[]) => unknown)(...effect.args);
+      } catch (error) {
+        cb(error, undefined, true);
+        return noop;
+      }
+
+      if (isIterator(result)) {
+        const child = proc(env, result, (outcome) => {
+          if (outcome.status === "error") cb(outcome.error, undefined, true);
+          else cb(null, outcome.status === "done" ? outcome.value : undefined);
+        });
+        child.start();
+        return child.task.cancel;
+      }
+
+      if (isPromise(result)) {
+        let active = true;
+        result.then(
+          (value) => active && cb(null, value),
+          (error: unknown) => active && cb(error, undefined, true),
+        );
+        return () => {
+          active = false;
+        };
+      }
+
+      cb(null, result);
+      return noop;
+    }
+
+    case "put": {
+      let result: unknown;
+      try {
+        result = env.dispatch(effect.action);
+      } catch (error) {
+        cb(error, undefined, true);
+        return noop;
+      }
+      cb(null, result);
+      return noop;
+    }
+
+    case "select": {
+      let result: unknown;
+      try {
+        const state = env.getState();
+        result = effect.selector
+          ? (effect.selector as (...args: unknown[]) => unknown)(
+              state,
+              ...effect.args,
+            )
+          : state;
+      } catch (error) {
+        cb(error, undefined, true);
+        return noop;
+      }
+      cb(null, result);
+      return noop;
+    }
+
+    case "take": {
+      const taker: Taker = {
+        match: toMatcher(effect.pattern as TakePattern),
+        resolve: (action) => {
+          env.takers.delete(taker);
+          cb(null, action);
+        },
+      };
+      env.takers.add(taker);
+      return () => {
+        env.takers.delete(taker);
+      };
+    }
+
+    case "fork": {
+      let result: unknown;
+      try {
+        result = (effect.fn as (...args: unknown[]) => unknown)(...effect.args);
+      } catch (error) {
+        cb(error, undefined, true);
+        return noop;
+      }
+
+      const iterator = isIterator(result)
+        ? result
+        : (function* (): SagaIterator<unknown> {
+            return yield {
+              effect: "call",
+              fn: () => result,
+              args: [],
+            };
+          })();
+
+      cb(null, parent.fork(iterator));
+      return noop;
+    }
+
+    case "cancel": {
+      effect.task.cancel();
+      cb(null, undefined);
+      return noop;
+    }
+
+    case "race": {
+      const keys = Object.keys(effect.effects);
+      const cancels: (() => void)[] = [];
+      let settled = false;
+
+      const cancelAll = () => {
+        settled = true;
+        cancels.forEach((cancel) => {
+          cancel();
+        });
+      };
+
+      for (const key of keys) {
+        if (settled) break;
+
+        cancels.push(
+          runEffect(
+            env,
+            effect.effects[key] as Effect,
+            parent,
+            (error, value, isError) => {
+              if (settled) return;
+              cancelAll();
+              if (isError) cb(error, undefined, true);
+              else cb(null, { [key]: value });
+            },
+          ),
+        );
+      }
+
+      return cancelAll;
+    }
+
+    case "all": {
+      const { effects } = effect;
+      const keys = Object.keys(effects);
+      const values: unknown[] = new Array(keys.length);
+      const collect = () =>
+        Array.isArray(effects)
+          ? values
+          : Object.fromEntries(keys.map((key, i) => [key, values[i]]));
+      const cancels: (() => void)[] = [];
+      let remaining = keys.length;
+      let settled = false;
+
+      const cancelAll = () => {
+        settled = true;
+        cancels.forEach((cancel) => {
+          cancel();
+        });
+      };
+
+      if (remaining === 0) {
+        cb(null, collect());
+        return noop;
+      }
+
+      keys.forEach((key, index) => {
+        if (settled) return;
+
+        cancels.push(
+          runEffect(
+            env,
+            (effects as Record<string, Effect>)[key] as Effect,
+            parent,
+            (error, value, isError) => {
+              if (settled) return;
+              if (isError) {
+                cancelAll();
+                cb(error, undefined, true);
+                return;
+              }
+
+              values[index] = value;
+              remaining -= 1;
+              if (remaining === 0) {
+                settled = true;
+                cb(null, collect());
+              }
+            },
+          ),
+        );
+      });
+
+      return cancelAll;
+    }
+  }
+}
+
+function proc(
+  env: Env,
+  iterator: SagaIterator<unknown>,
+  onDone: (outcome: Outcome) => void,
+): Proc {
+  const forks: Set<Proc> = new Set();
+  const settlers: ((outcome: Outcome) => void)[] = [];
+  let running = true;
+  let cancelled = false;
+  let mainOutcome: Outcome | undefined;
+  let outcome: Outcome | undefined;
+  let cancelEffect: () => void = noop;
+  let promise: Promise<unknown> | undefined;
+
+  function finish(result: Outcome): void {
+    running = false;
+    outcome = result;
+    cancelEffect = noop;
+    settlers.forEach((settle) => {
+      settle(result);
+    });
+    onDone(result);
+  }
+
+  function checkDone(): void {
+    if (running && mainOutcome && forks.size === 0) {
+      finish(mainOutcome);
+    }
+  }
+
+  function stopMain(): void {
+    cancelEffect();
+    forks.forEach((child) => {
+      child.task.cancel();
+    });
+
+    if (!mainOutcome) {
+      try {
+        iterator.return(undefined);
+      } catch {
+        // Errors thrown from finally blocks of a stopped saga are dropped
+      }
+    }
+  }
+
+  function abort(error: unknown): void {
+    if (!running) return;
+    running = false;
+    stopMain();
+    finish({ status: "error", error });
+  }
+
+  // Effects that settle synchronously resume the generator in this loop, so
+  // long runs of them do not grow the stack
+  function step(arg: unknown, isError: boolean): void {
+    let resumeWith: { arg: unknown; isError: boolean } | undefined = {
+      arg,
+      isError,
+    };
+
+    while (resumeWith && running && !mainOutcome) {
+      let result: IteratorResult<Effect, unknown>;
+      try {
+        if (resumeWith.isError) {
+          result = iterator.throw(resumeWith.arg);
+        } else {
+          result = iterator.next(resumeWith.arg);
+        }
+      } catch (error) {
+        mainOutcome = { status: "error", error };
+        abort(error);
+        return;
+      }
+
+      if (result.done) {
+        mainOutcome = { status: "done", value: result.value };
+        checkDone();
+        return;
+      }
+
+      let inEffect = true;
+      resumeWith = undefined;
+      const cancel = runEffect(
+        env,
+        result.value,
+        self,
+        (error, value, isErr = false) => {
+          cancelEffect = noop;
+          const resumed = isErr ? error : value;
+          if (inEffect) resumeWith = { arg: resumed, isError: isErr };
+          else step(resumed, isErr);
+        },
+      );
+      inEffect = false;
+
+      if (!resumeWith) cancelEffect = cancel;
+    }
+  }
+
+  const task: Task = {
+    isRunning: () => running,
+    isCancelled: () => cancelled,
+    toPromise: () => {
+      promise ??= new Promise((resolve, reject) => {
+        const settle = (result: Outcome) => {
+          if (result.status === "error") reject(result.error);
+          else resolve(result.status === "done" ? result.value : undefined);
+        };
+
+        if (outcome) settle(outcome);
+        else settlers.push(settle);
+      });
+
+      return promise;
+    },
+    cancel: () => {
+      if (!running) return;
+      running = false;
+      cancelled = true;
+      stopMain();
+      finish({ status: "cancelled" });
+    },
+  };
+
+  const self: Proc = {
+    task,
+    start: () => step(undefined, false),
+    fork: (childIterator) => {
+      const child = proc(env, childIterator, (result) => {
+        forks.delete(child);
+        if (result.status === "error") abort(result.error);
+        else checkDone();
+      });
+
+      forks.add(child);
+      child.start();
+      return child.task;
+    },
+  };
+
+  return self;
+}
+
+export function createSagaMiddleware<
+  S,
+  A extends Action = Action,
+  E = undefined,
+>(options: SagaMiddlewareOptions = {}): SagaMiddleware<S, A, E> {
+  const { onError = console.error } = options;
+  const takers: Set<Taker> = new Set();
+  let env: Env | undefined;
+
+  const middleware: MiddlewareFunction<S, A, E> = ({ getState, dispatch }) => {
+    env = {
+      getState,
+      dispatch: (action) => dispatch(action as A),
+      takers,
+    };
+
+    return (next) => (action) => {
+      const result = next(action);
+
+      if (typeof action !== "function") {
+        // Snapshot so takers registered while resuming wait for the next action
+        for (const taker of [...takers]) {
+          if (takers.has(taker) && taker.match(action)) {
+            taker.resolve(action);
+          }
+        }
+      }
+
+      return result;
+    };
+  };
+
+  function run<Args extends unknown[]>(
+    saga: (...args: Args) => SagaIterator<unknown>,
+    ...args: Args
+  ): Task {
+    if (!env) {
+      throw new Error(
+        "The saga middleware must be mounted on a store before running a saga.",
+      );
+    }
+
+    const root = proc(env, saga(...args), (outcome) => {
+      if (outcome.status === "error") onError(outcome.error);
+    });
+    root.start();
+
+    return root.task;
+  }
+
+  return Object.assign(middleware, { run });
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "@jest/globals";
+import { shallowEqual } from "./shallow-equal";
+
+describe("shallowEqual – primitives", () => {
+  it("identical values", () => {
+    expect(shallowEqual(1, 1)).toBe(true);
+    expect(shallowEqual("a", "a")).toBe(true);
+    expect(shallowEqual(NaN, NaN)).toBe(true);
+  });
+
+  it("different values", () => {
+    expect(shallowEqual(1, 2)).toBe(false);
+    expect(shallowEqual(null, {})).toBe(false);
+    expect(shallowEqual(undefined, null)).toBe(false);
+  });
+});
+
+describe("shallowEqual – objects", () => {
+  it("same top-level values", () => {
+    expect(shallowEqual({ a: 1, b: "x" }, { a: 1, b: "x" })).toBe(true);
+  });
+
+  it("same nested references", () => {
+    const nested = { c: 1 };
+    expect(shallowEqual({ a: nested }, { a: nested })).toBe(true);
+  });
+
+  it("different nested references", () => {
+    expect(shallowEqual({ a: { c: 1 } }, { a: { c: 1 } })).toBe(false);
+  });
+
+  it("different keys", () => {
+    expect(shallowEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+    expect(shallowEqual({ a: undefined }, { b: undefined })).toBe(false);
+  });
+
+  it("different prototypes", () => {
+    expect(shallowEqual([], {})).toBe(false);
+  });
+});
+
+describe("shallowEqual – arrays", () => {
+  it("same items", () => {
+    const item = { id: 1 };
+    expect(shallowEqual([1, item], [1, item])).toBe(true);
+  });
+
+  it("different items or lengths", () => {
+    expect(shallowEqual([{ id: 1 }], [{ id: 1 }])).toBe(false);
+    expect(shallowEqual([1], [1, 2])).toBe(false);
+  });
+});
+
+describe("shallowEqual – Set and Map", () => {
+  it("same members", () => {
+    expect(shallowEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+    expect(shallowEqual(new Map([["a", 1]]), new Map([["a", 1]]))).toBe(true);
+  });
+
+  it("different members", () => {
+    expect(shallowEqual(new Set([1]), new Set([2]))).toBe(false);
+    expect(shallowEqual(new Map([["a", 1]]), new Map([["a", 2]]))).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+export function shallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+
+  if (
+    a === null ||
+    b === null ||
+    typeof a !== "object" ||
+    typeof b !== "object"
+  ) {
+    return false;
+  }
+
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  // Array
+  if (Array.isArray(a)) {
+    const arrA = a as unknown[];
+    const arrB = b as unknown[];
+    if (arrA.length !== arrB.length) return false;
+
+    for (let i = 0; i < arrA.length; i++) {
+      if (!Object.is(arrA[i], arrB[i])) return false;
+    }
+    return true;
+  }
+
+  // Set
+  if (a instanceof Set) {
+    const setB = b as Set<unknown>;
+    if (a.size !== setB.size) return false;
+
+    for (const value of a) {
+      if (!setB.has(value)) return false;
+    }
+    return true;
+  }
+
+  // Map
+  if (a instanceof Map) {
+    const mapB = b as Map<unknown, unknown>;
+    if (a.size !== mapB.size) return false;
+
+    for (const [key, value] of a) {
+      if (!mapB.has(key) || !Object.is(value, mapB.get(key))) return false;
+    }
+    return true;
+  }
+
+  // Plain object
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+
+  const objA = a as Record<string, unknown>;
+  const objB = b as Record<string, unknown>;
+
+  for (const key of keysA) {
+    if (!Object.hasOwn(objB, key) || !Object.is(objA[key], objB[key])) {
+      return false;
+    }
+  }
+
+  return true;
+}
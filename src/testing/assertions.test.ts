@@ -0,0 +1,56 @@
+import { assertActions, assertActionsInclude } from "./assertions";
+
+describe("action assertions", () => {
+  const store = {
+    getActions: () => [
+      { type: "load/start" },
+      { type: "load/progress", payload: 50 },
+      { type: "load/done", payload: ["a"] },
+    ],
+  };
+
+  describe("assertActions", () => {
+    it("passes for the exact sequence of actions or types", () => {
+      expect(() =>
+        assertActions(store, [
+          "load/start",
+          { type: "load/progress", payload: 50 },
+          { type: "load/done", payload: ["a"] },
+        ]),
+      ).not.toThrow();
+    });
+
+    it("fails on a different payload, order or length", () => {
+      expect(() =>
+        assertActions(store, [
+          "load/start",
+          { type: "load/progress", payload: 60 },
+          "load/done",
+        ]),
+      ).toThrow("Expected the dispatched actions to be");
+      expect(() =>
+        assertActions(store, ["load/start", "load/done", "load/progress"]),
+      ).toThrow();
+      expect(() => assertActions(store, ["load/start"])).toThrow();
+    });
+  });
+
+  describe("assertActionsInclude", () => {
+    it("passes when the actions appear in order", () => {
+      expect(() =>
+        assertActionsInclude(store, [
+          "load/start",
+          { type: "load/done", payload: ["a"] },
+        ]),
+      ).not.toThrow();
+    });
+
+    it("reports the first action that is missing", () => {
+      expect(() =>
+        assertActionsInclude(store, ["load/done", "load/start"]),
+      ).toThrow(
+        'Expected the dispatched actions to include [\n  "load/start"\n] in order after [\n  "load/done"\n]',
+      );
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import type { Action } from "../create-store";
+import { deepEqual } from "../deep-equal";
+
+// An action type matches any action of that type, an object must be deepEqual
+export type ExpectedAction<A extends Action = Action> = A | A["type"];
+
+function matches<A extends Action>(
+  action: A,
+  expected: ExpectedAction<A>,
+): boolean {
+  return typeof expected === "string"
+    ? action.type === expected
+    : deepEqual(action, expected);
+}
+
+function format<A extends Action>(actions: ExpectedAction<A>[]): string {
+  return JSON.stringify(actions, null, 2);
+}
+
+export function assertActions<A extends Action>(
+  store: { getActions: () => A[] },
+  expected: ExpectedAction<A>[],
+): void {
+  const actions = store.getActions();
+
+  if (
+    actions.length !== expected.length ||
+    actions.some((action, index) => !matches(action, expected[index] as A))
+  ) {
+    throw new Error(
+      `Expected the dispatched actions to be ${format(expected)}\nbut got ${format(actions)}`,
+    );
+  }
+}
+
+// The expected actions must appear in order, other actions may come between
+export function assertActionsInclude<A extends Action>(
+  store: { getActions: () => A[] },
+  expected: ExpectedAction<A>[],
+): void {
+  const actions = store.getActions();
+  let index = 0;
+
+  for (const action of actions) {
+    const next = expected[index];
+    if (next !== undefined && matches(action, next)) index++;
+  }
+
+  if (index < expected.length) {
+    throw new Error(
+      `Expected the dispatched actions to include ${format(expected.slice(index))} in order after ${format(expected.slice(0, index))}\nbut got ${format(actions)}`,
+    );
+  }
+}
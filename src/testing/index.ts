@@ -0,0 +1,3 @@
+export * from "./assertions";
+export * from "./mock-store";
+export * from "./render-with-store";
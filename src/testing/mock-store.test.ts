@@ -0,0 +1,123 @@
+import type { ThunkAction } from "../apply-middleware";
+import type { Action } from "../create-store";
+import { createListenerMiddleware } from "../listener-middleware";
+import { createMockStore, MockStoreActionTypes } from "./mock-store";
+
+describe("createMockStore", () => {
+  type State = { count: number };
+
+  const reducer = (state: State, action: Action): State =>
+    action.type === "inc" ? { count: state.count + 1 } : state;
+
+  it("records dispatched actions", () => {
+    const store = createMockStore<State>({ count: 0 });
+
+    store.dispatch({ type: "inc" });
+    store.dispatch({ type: "dec" });
+
+    expect(store.getActions()).toEqual([{ type: "inc" }, { type: "dec" }]);
+    expect(store.getState()).toEqual({ count: 0 });
+
+    store.clearActions();
+    expect(store.getActions()).toEqual([]);
+  });
+
+  it("records the actions dispatched by thunks", () => {
+    const store = createMockStore<State>({ count: 0 }, { reducer });
+    const incTwice: ThunkAction<State> = (dispatch) => {
+      dispatch({ type: "inc" });
+      dispatch((inner) => inner({ type: "inc" }));
+    };
+
+    store.dispatch(incTwice);
+
+    expect(store.getActions()).toEqual([{ type: "inc" }, { type: "inc" }]);
+    expect(store.getState()).toEqual({ count: 2 });
+  });
+
+  it("sets the state and notifies listeners", () => {
+    const store = createMockStore<State>({ count: 0 });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    store.setState({ count: 5 });
+    store.setState((state) => ({ count: state.count * 2 }));
+
+    expect(store.getState()).toEqual({ count: 10 });
+    expect(listener).toHaveBeenLastCalledWith({ count: 10 });
+    expect(store.getActions()).not.toContainEqual(
+      expect.objectContaining({ type: MockStoreActionTypes.SET_STATE }),
+    );
+  });
+
+  describe("waitForPending", () => {
+    it("waits for async thunks, including nested ones", async () => {
+      const store = createMockStore<State>({ count: 0 }, { reducer });
+
+      store.dispatch(async (dispatch) => {
+        await Promise.resolve();
+        dispatch({ type: "inc" });
+        dispatch(async (inner) => {
+          await Promise.resolve();
+          inner({ type: "inc" });
+        });
+      });
+      await store.waitForPending();
+
+      expect(store.getState()).toEqual({ count: 2 });
+    });
+
+    it("waits for listener effects", async () => {
+      const listener = createListenerMiddleware<State>();
+      listener.startListening({
+        type: "inc",
+        effect: async (_action, api) => {
+          await Promise.resolve();
+          api.dispatch({ type: "effect/done" });
+        },
+      });
+      const store = createMockStore<State>(
+        { count: 0 },
+        { reducer, middlewares: [listener.middleware] },
+      );
+
+      store.dispatch({ type: "inc" });
+      await store.waitForPending();
+
+      expect(store.getActions()).toEqual([
+        { type: "inc" },
+        { type: "effect/done" },
+      ]);
+    });
+
+    it("settles under fake timers", async () => {
+      jest.useFakeTimers();
+      try {
+        const store = createMockStore<State>({ count: 0 }, { reducer });
+
+        store.dispatch(async (dispatch) => {
+          await Promise.resolve();
+          dispatch({ type: "inc" });
+        });
+        await store.waitForPending();
+
+        expect(store.getState()).toEqual({ count: 1 });
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("rejects with the error of a failed thunk", async () => {
+      const store = createMockStore<State>({ count: 0 });
+
+      store
+        .dispatch(async () => {
+          throw new Error("thunk failed");
+        })
+        .catch(() => {});
+
+      await expect(store.waitForPending()).rejects.toThrow("thunk failed");
+      await expect(store.waitForPending()).resolves.toBeUndefined();
+    });
+  });
+});
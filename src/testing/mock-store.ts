@@ -0,0 +1,128 @@
+import type { MiddlewareFunction } from "../apply-middleware";
+import type {
+  Action,
+  Reducer,
+  Store,
+  StoreOptions,
+  ThunkDispatch,
+} from "../create-store";
+import { createStore } from "../create-store";
+
+export type MockStore<S, A extends Action = Action, E = undefined> = Store<
+  S,
+  A,
+  E
+> & {
+  getActions: () => A[];
+  clearActions: () => void;
+  setState: (state: S | ((state: S) => S)) => void;
+  waitForPending: () => Promise<void>;
+};
+
+export type MockStoreOptions<
+  S,
+  A extends Action = Action,
+  E = undefined,
+> = Omit<StoreOptions<S, A, E>, "enhancer"> & {
+  reducer?: Reducer<S, A>;
+};
+
+export const MockStoreActionTypes = {
+  SET_STATE: "@@refluxio/testing/SET_STATE",
+} as const;
+
+// Taken before a test installs fake timers, which would never run the
+// callbacks waitForPending waits on
+const realSetTimeout = globalThis.setTimeout;
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { then?: unknown }).then === "function"
+  );
+}
+
+// A real store that records every action reaching the middleware chain,
+// including those dispatched by thunks. Without a reducer the state only
+// changes through `setState`
+export function createMockStore<S, A extends Action = Action, E = undefined>(
+  initialState: S,
+  options: MockStoreOptions<S, A, E> = {},
+): MockStore<S, A, E> {
+  const { reducer = (state: S) => state, middlewares = [], ...rest } = options;
+  const actions: A[] = [];
+  const pending: Set<PromiseLike<unknown>> = new Set();
+  const errors: unknown[] = [];
+
+  const mockReducer: Reducer<S, A> = (state, action) =>
+    action.type === MockStoreActionTypes.SET_STATE
+      ? (action.payload as S)
+      : reducer(state, action);
+
+  const recordActions: MiddlewareFunction<S, A, E> =
+    () => (next) => (action) => {
+      if ((action as A).type !== MockStoreActionTypes.SET_STATE) {
+        actions.push(action as A);
+      }
+      return next(action);
+    };
+
+  const store = createStore(mockReducer, initialState, {
+    ...rest,
+    middlewares: [recordActions, ...middlewares],
+  });
+  const dispatch = store.dispatch;
+
+  // Thunks dispatch through `store.dispatch`, so nested thunks are tracked too
+  store.dispatch = ((action: Parameters<typeof dispatch>[0]) => {
+    const result = dispatch(action);
+
+    if (typeof action === "function" && isPromiseLike(result)) {
+      pending.add(result);
+      result.then(
+        () => pending.delete(result),
+        (error: unknown) => {
+          pending.delete(result);
+          errors.push(error);
+        },
+      );
+    }
+
+    return result;
+  }) as ThunkDispatch<S, A, E>;
+
+  function setState(state: S | ((state: S) => S)): void {
+    const nextState =
+      typeof state === "function"
+        ? (state as (state: S) => S)(store.getState())
+        : state;
+
+    dispatch({ type: MockStoreActionTypes.SET_STATE, payload: nextState } as A);
+  }
+
+  // Settles thunks and the promise chains they start, such as listener
+  // effects. Work waiting on timers needs the timers to run first
+  async function waitForPending(): Promise<void> {
+    let dispatched: number;
+    do {
+      dispatched = actions.length;
+      await Promise.allSettled(pending);
+      await new Promise((resolve) => realSetTimeout(resolve, 0));
+    } while (pending.size > 0 || actions.length !== dispatched);
+
+    if (errors.length > 0) {
+      const [error] = errors.splice(0);
+      throw error;
+    }
+  }
+
+  return Object.assign(store, {
+    getActions: () => [...actions],
+    clearActions: () => {
+      actions.length = 0;
+    },
+    setState,
+    waitForPending,
+  });
+}
@@ -0,0 +1,39 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { act, screen } from "@testing-library/react";
+import "@testing-library/jest-dom";
+import { useSelector } from "../react/hooks";
+import { createMockStore } from "./mock-store";
+import { renderWithStore } from "./render-with-store";
+
+describe("renderWithStore", () => {
+  type State = { name: string };
+
+  function Greeting() {
+    const name = useSelector((state: State) => state.name);
+    return <p>Hello {name}</p>;
+  }
+
+  it("renders the component inside a StoreProvider", () => {
+    const store = createMockStore<State>({ name: "Ada" });
+
+    const result = renderWithStore(<Greeting />, { store });
+
+    expect(screen.getByText("Hello Ada")).toBeInTheDocument();
+    expect(result.store).toBe(store);
+
+    act(() => store.setState({ name: "Grace" }));
+    expect(screen.getByText("Hello Grace")).toBeInTheDocument();
+  });
+
+  it("keeps the provider when rerendering", () => {
+    const store = createMockStore<State>({ name: "Ada" });
+
+    const { rerender } = renderWithStore(<Greeting />, { store });
+    rerender(<Greeting />);
+
+    expect(screen.getByText("Hello Ada")).toBeInTheDocument();
+  });
+});
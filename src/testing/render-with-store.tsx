@@ -0,0 +1,26 @@
+import type { RenderOptions, RenderResult } from "@testing-library/react";
+import { render } from "@testing-library/react";
+import type { ReactElement, ReactNode } from "react";
+import type { Action, Store } from "../create-store";
+import { StoreProvider } from "../react/store-provider";
+
+export type RenderWithStoreOptions<
+  S,
+  A extends Action = Action,
+  E = undefined,
+> = Omit<RenderOptions, "wrapper"> & {
+  store: Store<S, A, E>;
+};
+
+export function renderWithStore<S, A extends Action = Action, E = undefined>(
+  ui: ReactElement,
+  options: RenderWithStoreOptions<S, A, E>,
+): RenderResult & { store: Store<S, A, E> } {
+  const { store, ...renderOptions } = options;
+
+  function Wrapper({ children }: { children: ReactNode }) {
+    return <StoreProvider store={store}>{children}</StoreProvider>;
+  }
+
+  return { ...render(ui, { ...renderOptions, wrapper: Wrapper }), store };
+}
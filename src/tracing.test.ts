@@ -0,0 +1,141 @@
+import type { MiddlewareFunction } from "./apply-middleware";
+import type { Action } from "./create-store";
+import { createStore } from "./create-store";
+import { createTracer } from "./tracing";
+
+describe("createTracer", () => {
+  // Every reading of the clock advances it by 1ms
+  function fakeClock() {
+    let time = 0;
+    return () => time++;
+  }
+
+  it("records the duration of each measured phase", () => {
+    const tracer = createTracer({ now: fakeClock() });
+
+    const result = tracer.measure(
+      "reducer",
+      "reducer",
+      { type: "a" },
+      () => 42,
+    );
+
+    expect(result).toBe(42);
+    expect(tracer.getEvents()).toEqual([
+      {
+        phase: "reducer",
+        name: "reducer",
+        actionType: "a",
+        start: 0,
+        duration: 1,
+      },
+    ]);
+  });
+
+  it("records phases that throw", () => {
+    const tracer = createTracer({ now: fakeClock() });
+
+    expect(() =>
+      tracer.measure("reducer", "reducer", { type: "a" }, () => {
+        throw new Error("failed");
+      }),
+    ).toThrow("failed");
+    expect(tracer.getEvents()).toHaveLength(1);
+  });
+
+  it("keeps only the most recent events", () => {
+    const tracer = createTracer({ bufferSize: 2, now: fakeClock() });
+
+    for (const type of ["a", "b", "c"]) {
+      tracer.measure("dispatch", type, { type }, () => {});
+    }
+
+    expect(tracer.getEvents().map((event) => event.actionType)).toEqual([
+      "b",
+      "c",
+    ]);
+
+    tracer.clear();
+    expect(tracer.getEvents()).toEqual([]);
+  });
+
+  it("times an action dispatched through nested store layers once", () => {
+    const tracer = createTracer({ now: fakeClock() });
+    const action = { type: "a" };
+
+    tracer.measure("dispatch", "a", action, () =>
+      tracer.measure("dispatch", "a", action, () => {}),
+    );
+
+    expect(tracer.getEvents()).toHaveLength(1);
+  });
+
+  it("exports complete events in microseconds for Chrome", () => {
+    const tracer = createTracer({ now: fakeClock() });
+    tracer.measure("middleware", "logger", { type: "a" }, () => {});
+
+    expect(tracer.toChromeTrace()).toEqual({
+      traceEvents: [
+        {
+          name: "logger",
+          cat: "middleware",
+          ph: "X",
+          ts: 0,
+          dur: 1000,
+          pid: 1,
+          tid: 1,
+          args: { actionType: "a" },
+        },
+      ],
+      displayTimeUnit: "ms",
+    });
+    expect(() => JSON.stringify(tracer.toChromeTrace())).not.toThrow();
+  });
+
+  it("summarizes the slowest action types by average dispatch time", () => {
+    let time = 0;
+    const tracer = createTracer({ now: () => time });
+    const dispatch = (type: string, duration: number) =>
+      tracer.measure("dispatch", type, { type }, () => {
+        time += duration;
+      });
+
+    dispatch("fast", 1);
+    dispatch("slow", 10);
+    dispatch("slow", 20);
+    dispatch("medium", 5);
+
+    expect(tracer.summarize()).toEqual([
+      { actionType: "slow", count: 2, total: 30, average: 15, max: 20 },
+      { actionType: "medium", count: 1, total: 5, average: 5, max: 5 },
+      { actionType: "fast", count: 1, total: 1, average: 1, max: 1 },
+    ]);
+    expect(tracer.summarize(1)).toHaveLength(1);
+  });
+
+  it("traces every phase of a store dispatch", () => {
+    const tracer = createTracer({ now: fakeClock() });
+    const logger: MiddlewareFunction<number> = () => (next) => (action) =>
+      next(action);
+    const store = createStore(
+      (state: number, action: Action) =>
+        action.type === "inc" ? state + 1 : state,
+      0,
+      { middlewares: [logger], tracer },
+    );
+    store.subscribe(() => {});
+
+    store.dispatch({ type: "inc" });
+
+    // Events are recorded as phases end, so inner phases come first
+    expect(
+      tracer.getEvents().map(({ phase, name }) => `${phase}:${name}`),
+    ).toEqual([
+      "reducer:reducer",
+      "equality:equality",
+      "listeners:listeners",
+      "middleware:logger",
+      "dispatch:inc",
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+import type { Action } from "./create-store";
+
+export type TracePhase =
+  | "dispatch"
+  | "middleware"
+  | "reducer"
+  | "equality"
+  | "listeners";
+
+export type TraceEvent = {
+  phase: TracePhase;
+  name: string;
+  actionType: string;
+  start: number;
+  duration: number;
+};
+
+export type ChromeTraceEvent = {
+  name: string;
+  cat: TracePhase;
+  ph: "X";
+  ts: number;
+  dur: number;
+  pid: number;
+  tid: number;
+  args: { actionType: string };
+};
+
+export type ChromeTrace = {
+  traceEvents: ChromeTraceEvent[];
+  displayTimeUnit: "ms";
+};
+
+export type ActionTypeSummary = {
+  actionType: string;
+  count: number;
+  total: number;
+  average: number;
+  max: number;
+};
+
+export type Tracer = {
+  measure: <R>(
+    phase: TracePhase,
+    name: string,
+    action: Action,
+    fn: () => R,
+  ) => R;
+  getEvents: () => TraceEvent[];
+  toChromeTrace: () => ChromeTrace;
+  summarize: (limit?: number) => ActionTypeSummary[];
+  clear: () => void;
+};
+
+export type TracerOptions = {
+  bufferSize?: number;
+  now?: () => number;
+};
+
+export function createTracer(options: TracerOptions = {}): Tracer {
+  const { bufferSize = 1000, now = () => performance.now() } = options;
+
+  // Ring buffer: once full, each event overwrites the oldest one
+  const buffer: TraceEvent[] = [];
+  let next = 0;
+  // An action dispatched through several stores layers is timed once
+  const dispatching = new Set<Action>();
+
+  function record(event: TraceEvent): void {
+    buffer[next] = event;
+    next = (next + 1) % bufferSize;
+  }
+
+  function measure<R>(
+    phase: TracePhase,
+    name: string,
+    action: Action,
+    fn: () => R,
+  ): R {
+    if (phase === "dispatch") {
+      if (dispatching.has(action)) return fn();
+      dispatching.add(action);
+    }
+
+    const start = now();
+    try {
+      return fn();
+    } finally {
+      record({
+        phase,
+        name,
+        actionType: action.type,
+        start,
+        duration: now() - start,
+      });
+      if (phase === "dispatch") dispatching.delete(action);
+    }
+  }
+
+  function getEvents(): TraceEvent[] {
+    return buffer.length < bufferSize
+      ? [...buffer]
+      : [...buffer.slice(next), ...buffer.slice(0, next)];
+  }
+
+  // Loads in chrome://tracing and the Performance panel of Chrome DevTools
+  function toChromeTrace(): ChromeTrace {
+    return {
+      traceEvents: getEvents().map((event) => ({
+        name: event.name,
+        cat: event.phase,
+        ph: "X",
+        ts: event.start * 1000,
+        dur: event.duration * 1000,
+        pid: 1,
+        tid: 1,
+        args: { actionType: event.actionType },
+      })),
+      displayTimeUnit: "ms",
+    };
+  }
+
+  // Action types by average dispatch duration, slowest first
+  function summarize(limit = 10): ActionTypeSummary[] {
+    const byType = new Map<string, ActionTypeSummary>();
+
+    for (const event of getEvents()) {
+      if (event.phase !== "dispatch") continue;
+
+      const summary = byType.get(event.actionType) ?? {
+        actionType: event.actionType,
+        count: 0,
+        total: 0,
+        average: 0,
+        max: 0,
+      };
+      summary.count++;
+      summary.total += event.duration;
+      summary.max = Math.max(summary.max, event.duration);
+      summary.average = summary.total / summary.count;
+      byType.set(event.actionType, summary);
+    }
+
+    return [...byType.values()]
+      .sort((a, b) => b.average - a.average)
+      .slice(0, limit);
+  }
+
+  function clear(): void {
+    buffer.length = 0;
+    next = 0;
+  }
+
+  return { measure, getEvents, toChromeTrace, summarize, clear };
+}
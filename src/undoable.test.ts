@@ -0,0 +1,169 @@
+import type { Action } from "./create-store";
+import { createStore } from "./create-store";
+import type { UndoableOptions } from "./undoable";
+import {
+  clearHistory,
+  createHistory,
+  jump,
+  redo,
+  undo,
+  undoable,
+} from "./undoable";
+
+describe("undoable", () => {
+  type State = { text: string; cursor: number };
+
+  const reducer = (state: State, action: Action): State => {
+    switch (action.type) {
+      case "type":
+        return { ...state, text: state.text + (action.payload as string) };
+      case "move":
+        return { ...state, cursor: action.payload as number };
+      case "reset":
+        return { text: "", cursor: 0 };
+      default:
+        return state;
+    }
+  };
+
+  const initialState: State = { text: "", cursor: 0 };
+
+  function setup(options: UndoableOptions<State> = {}) {
+    return createStore(undoable(reducer, options), createHistory(initialState));
+  }
+
+  const texts = (states: State[]) => states.map((state) => state.text);
+
+  describe("history", () => {
+    it("records past states", () => {
+      const store = setup();
+
+      store.dispatch({ type: "type", payload: "a" });
+      store.dispatch({ type: "type", payload: "b" });
+
+      const { past, present, future } = store.getState();
+      expect(texts(past)).toEqual(["", "a"]);
+      expect(present.text).toBe("ab");
+      expect(future).toEqual([]);
+    });
+
+    it("skips actions that leave the state deeply equal", () => {
+      const store = setup();
+      store.dispatch({ type: "type", payload: "a" });
+      const history = store.getState();
+
+      store.dispatch({ type: "unknown" });
+      store.dispatch({ type: "move", payload: 0 });
+
+      expect(store.getState()).toBe(history);
+    });
+
+    it("keeps at most `limit` past states", () => {
+      const store = setup({ limit: 2 });
+
+      for (const char of "abcd") {
+        store.dispatch({ type: "type", payload: char });
+      }
+
+      expect(texts(store.getState().past)).toEqual(["ab", "abc"]);
+    });
+  });
+
+  describe("undo and redo", () => {
+    it("moves between past and future states", () => {
+      const store = setup();
+      store.dispatch({ type: "type", payload: "a" });
+      store.dispatch({ type: "type", payload: "b" });
+
+      store.dispatch(undo());
+      expect(store.getState().present.text).toBe("a");
+      expect(texts(store.getState().future)).toEqual(["ab"]);
+
+      store.dispatch(undo());
+      store.dispatch(undo());
+      expect(store.getState().present.text).toBe("");
+
+      store.dispatch(redo());
+      expect(store.getState().present.text).toBe("a");
+    });
+
+    it("clears the future on a new change", () => {
+      const store = setup();
+      store.dispatch({ type: "type", payload: "a" });
+      store.dispatch(undo());
+
+      store.dispatch({ type: "type", payload: "b" });
+
+      expect(store.getState().present.text).toBe("b");
+      expect(store.getState().future).toEqual([]);
+    });
+
+    it("jumps several steps at once", () => {
+      const store = setup();
+      for (const char of "abc") {
+        store.dispatch({ type: "type", payload: char });
+      }
+
+      store.dispatch(jump(-2));
+      expect(store.getState().present.text).toBe("a");
+      expect(texts(store.getState().past)).toEqual([""]);
+      expect(texts(store.getState().future)).toEqual(["ab", "abc"]);
+
+      store.dispatch(jump(2));
+      expect(store.getState().present.text).toBe("abc");
+
+      const history = store.getState();
+      store.dispatch(jump(1));
+      expect(store.getState()).toBe(history);
+    });
+
+    it("clears the history and keeps the present state", () => {
+      const store = setup();
+      store.dispatch({ type: "type", payload: "a" });
+      store.dispatch({ type: "type", payload: "b" });
+      store.dispatch(undo());
+
+      store.dispatch(clearHistory());
+
+      expect(store.getState()).toEqual(createHistory({ text: "a", cursor: 0 }));
+    });
+  });
+
+  describe("filtering and grouping", () => {
+    it("updates the present without recording filtered actions", () => {
+      const store = setup({ filter: (action) => action.type !== "move" });
+
+      store.dispatch({ type: "type", payload: "a" });
+      store.dispatch({ type: "move", payload: 1 });
+
+      expect(texts(store.getState().past)).toEqual([""]);
+      expect(store.getState().present).toEqual({ text: "a", cursor: 1 });
+
+      store.dispatch(undo());
+      expect(store.getState().present).toEqual(initialState);
+    });
+
+    it("groups consecutive actions with the same key into one step", () => {
+      const store = setup({
+        groupBy: (action) => (action.type === "type" ? "typing" : undefined),
+      });
+
+      for (const char of "abc") {
+        store.dispatch({ type: "type", payload: char });
+      }
+      store.dispatch({ type: "move", payload: 3 });
+      store.dispatch({ type: "type", payload: "d" });
+
+      expect(store.getState().past).toEqual([
+        { text: "", cursor: 0 },
+        { text: "abc", cursor: 0 },
+        { text: "abc", cursor: 3 },
+      ]);
+
+      store.dispatch(undo());
+      store.dispatch(undo());
+      store.dispatch(undo());
+      expect(store.getState().present).toEqual(initialState);
+    });
+  });
+});
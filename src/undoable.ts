@@ -0,0 +1,97 @@
+import { createAction } from "./create-action";
+import type { Action, Reducer } from "./create-store";
+import { deepEqual } from "./deep-equal";
+
+export type History<S> = {
+  past: S[];
+  present: S;
+  future: S[];
+  group?: unknown;
+};
+
+export type UndoableOptions<S, A extends Action = Action> = {
+  limit?: number;
+  filter?: (action: A, state: S, previousState: S) => boolean;
+  groupBy?: (action: A, state: S) => unknown;
+};
+
+export const UndoActionTypes = {
+  UNDO: "@@refluxio/UNDO",
+  REDO: "@@refluxio/REDO",
+  JUMP: "@@refluxio/JUMP",
+  CLEAR_HISTORY: "@@refluxio/CLEAR_HISTORY",
+} as const;
+
+export const undo = createAction(UndoActionTypes.UNDO);
+export const redo = createAction(UndoActionTypes.REDO);
+export const jump = createAction<number, typeof UndoActionTypes.JUMP>(
+  UndoActionTypes.JUMP,
+);
+export const clearHistory = createAction(UndoActionTypes.CLEAR_HISTORY);
+
+export type UndoAction =
+  | ReturnType<typeof undo>
+  | ReturnType<typeof redo>
+  | ReturnType<typeof jump>
+  | ReturnType<typeof clearHistory>;
+
+export function createHistory<S>(present: S): History<S> {
+  return { past: [], present, future: [] };
+}
+
+// Negative steps move into the past, positive steps into the future
+function jumpTo<S>(history: History<S>, steps: number): History<S> {
+  const timeline = [...history.past, history.present, ...history.future];
+  const index = history.past.length + steps;
+
+  if (steps === 0 || index < 0 || index >= timeline.length) return history;
+
+  return {
+    past: timeline.slice(0, index),
+    present: timeline[index] as S,
+    future: timeline.slice(index + 1),
+  };
+}
+
+export function undoable<S, A extends Action = Action>(
+  reducer: Reducer<S, A>,
+  options: UndoableOptions<S, A> = {},
+): Reducer<History<S>, A | UndoAction> {
+  const { limit = Number.POSITIVE_INFINITY, filter, groupBy } = options;
+
+  return function history(
+    state: History<S>,
+    action: A | UndoAction,
+  ): History<S> {
+    switch (action.type) {
+      case UndoActionTypes.UNDO:
+        return jumpTo(state, -1);
+      case UndoActionTypes.REDO:
+        return jumpTo(state, 1);
+      case UndoActionTypes.JUMP:
+        return jumpTo(state, (action as UndoAction).payload ?? 0);
+      case UndoActionTypes.CLEAR_HISTORY:
+        return createHistory(state.present);
+    }
+
+    const present = reducer(state.present, action as A);
+    if (deepEqual(present, state.present)) return state;
+
+    if (filter && !filter(action as A, present, state.present)) {
+      return { ...state, present };
+    }
+
+    const group = groupBy?.(action as A, present);
+    if (group !== undefined && group === state.group) {
+      return { ...state, present, future: [] };
+    }
+
+    const past = [...state.past, state.present];
+    return {
+      past: past.length > limit ? past.slice(past.length - limit) : past,
+      present,
+      future: [],
+      group,
+    };
+  };
+}